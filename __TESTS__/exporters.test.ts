@@ -0,0 +1,132 @@
+import {
+  ObjectValidator,
+  ValidationFields,
+  rules,
+  toHtmlAttributes,
+  toJsonSchema,
+} from "../src/index.ts";
+import { describe, expect, it } from "vitest";
+
+const fields: ValidationFields = [
+  { name: "email", tests: [rules.email()] },
+  {
+    name: "password",
+    tests: [rules.minLength(8), rules.maxLength(64), { fn: (value) => value !== "password" }],
+  },
+  { name: "confirmPassword", tests: [rules.equalsField("password")] },
+  { name: "address.postal_code", tests: [rules.pattern(/^[0-9]{4}$/)] },
+  { name: "nickname", isOptional: true },
+  { name: "country", tests: [rules.oneOf(["AU", "US"])] },
+  {
+    name: "items",
+    fields: [{ name: "qty", tests: [rules.range(1, 10)] }],
+  },
+  { name: "vat", skipIf: ({ source }) => !source.isBusiness },
+  { name: "translations.*.title", tests: [rules.maxLength(10)] },
+  {
+    name: "tags",
+    tests: [rules.minItems(1)],
+    fields: [{ name: "label" }],
+  },
+  {
+    name: "code",
+    tests: [{ fn: (code) => /^[A-Z]+$/.test(code), meta: { rule: "pattern", params: { pattern: "^[A-Z]+$" } } }],
+  },
+];
+
+describe("exporters", () => {
+  it("test_to_json_schema", () => {
+    // When
+    const { schema, nonExportable } = toJsonSchema(new ObjectValidator(fields));
+
+    // Then
+    const itemSchema = {
+      type: "object",
+      properties: { qty: { type: "number", minimum: 1, maximum: 10 } },
+      required: ["qty"],
+    };
+    expect(schema).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        email: { type: "string", format: "email" },
+        password: { minLength: 8, maxLength: 64 },
+        confirmPassword: {},
+        address: {
+          type: "object",
+          properties: { postal_code: { type: "string", pattern: "^[0-9]{4}$" } },
+          required: ["postal_code"],
+        },
+        nickname: {},
+        country: { enum: ["AU", "US"] },
+        items: { anyOf: [itemSchema, { type: "array", items: itemSchema }] },
+        vat: {},
+        translations: {
+          type: "object",
+          properties: {},
+          additionalProperties: {
+            type: "object",
+            properties: { title: { maxLength: 10 } },
+            required: ["title"],
+          },
+        },
+        tags: {
+          type: "array",
+          minItems: 1,
+          items: { type: "object", properties: { label: {} }, required: ["label"] },
+        },
+        code: { type: "string", pattern: "^[A-Z]+$" },
+      },
+      required: [
+        "email",
+        "password",
+        "confirmPassword",
+        "address",
+        "country",
+        "items",
+        "translations",
+        "tags",
+        "code",
+      ],
+    });
+    expect(nonExportable).toEqual([
+      { path: "password", testIndex: 2, reason: "custom test" },
+      {
+        path: "confirmPassword",
+        testIndex: 0,
+        reason: 'rule "equalsField" has no JSON Schema equivalent',
+      },
+      { path: "items", reason: "sub-fields of either an object or an array's items" },
+      { path: "vat", reason: "skipIf condition" },
+    ]);
+  });
+
+  it("test_to_html_attributes", () => {
+    // When
+    const { attributes, nonExportable } = toHtmlAttributes(new ObjectValidator(fields));
+
+    // Then
+    expect(attributes).toEqual({
+      email: { required: true, type: "email" },
+      password: { required: true, minlength: 8, maxlength: 64 },
+      confirmPassword: { required: true },
+      "address.postal_code": { required: true, pattern: "^[0-9]{4}$" },
+      nickname: {},
+      country: { required: true },
+      items: { required: true },
+      "items.qty": { required: true, type: "number", min: 1, max: 10 },
+      vat: {},
+      "translations.*.title": { required: true, maxlength: 10 },
+      tags: { required: true },
+      "tags.label": { required: true },
+      code: { required: true, pattern: "^[A-Z]+$" },
+    });
+    expect(nonExportable.map(({ path }) => path)).toEqual([
+      "password",
+      "confirmPassword",
+      "country",
+      "vat",
+      "tags",
+    ]);
+  });
+});
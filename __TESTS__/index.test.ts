@@ -3,8 +3,20 @@ import {
   DEFAULT_EMPTY_MANDATORY_FIELD_ERROR,
   ValidationFields,
   ValidationState,
+  ValidationHooks,
   createValidationStateForFields,
   DEFAULT_FAILED_FIELD_ERROR,
+  DEFAULT_TIMEOUT_ERROR,
+  FAILED_FIELD_CODE,
+  EMPTY_MANDATORY_FIELD_CODE,
+  createMessageCatalogue,
+  UNKNOWN_PROPERTY_CODE,
+  getFieldState,
+  conditionalGroup,
+  ValidationContext,
+  toFlatFields,
+  toNestedFields,
+  StopPolicy,
 } from "../src/index.ts";
 import { describe, expect, it } from "vitest";
 
@@ -456,6 +468,1529 @@ describe("Validation_class", () => {
     expect(stateObj.isValid).toBe(false);
   });
 
+  it("test_validate_nested_object_fields", async () => {
+    const stateObj: ValidationState = {
+      fields: {},
+      isValid: false,
+    };
+
+    const parents: any[] = [];
+    const fields: ValidationFields = [
+      {
+        name: "address",
+        fields: [
+          {
+            name: "street",
+            emptyFieldMessage: "Street is required",
+          },
+          {
+            name: "postal_code",
+            tests: [
+              {
+                fn: (val, { parent }) => {
+                  parents.push(parent);
+                  return /^[0-9]{4}$/.test(val);
+                },
+                message: "Invalid postal code",
+              },
+            ],
+          },
+        ],
+      },
+    ];
+    const source = {
+      address: {
+        street: "",
+        postal_code: "12345",
+      },
+    };
+
+    const validator = new ObjectValidator(fields);
+    // When
+    const result = await validator.validate({ source, stateObj });
+
+    // Then
+    expect(result).toBe(false);
+    expect(stateObj.fields).toEqual({
+      address: {
+        street: "Street is required",
+        postal_code: "Invalid postal code",
+      },
+    });
+    expect(parents).toEqual([source]);
+  });
+
+  // Tests that all failing messages are collected when collectFailures is set.
+  it("test_validate_collect_failures", async () => {
+    // Given
+    const stateObj: ValidationState = {
+      isValid: false,
+      fields: { password: false, username: false },
+    };
+    const fields: ValidationFields = [
+      {
+        name: "password",
+        tests: [
+          { fn: (val) => val.length >= 8, message: "Too short" },
+          { fn: (val) => /[0-9]/.test(val), message: "No digits" },
+          { fn: (val) => /[a-z]/.test(val), message: "No letters" },
+        ],
+      },
+      {
+        name: "username",
+        collectFailures: false,
+        tests: [
+          { fn: () => false, message: "First" },
+          { fn: () => false, message: "Second" },
+        ],
+      },
+    ];
+    const source = { password: "abc", username: "john" };
+    const validator = new ObjectValidator(fields).withCollectedFailures();
+
+    // When
+    const result = await validator.validate({ source, stateObj });
+
+    // Then
+    expect(result).toBe(false);
+    expect(stateObj.fields.password).toEqual(["Too short", "No digits"]);
+    expect(stateObj.fields.username).toEqual("Second");
+  });
+
+  // Tests that validatePaths only evaluates the requested fields and merges the results.
+  it("test_validate_paths", async () => {
+    // Given
+    const stateObj: ValidationState = {
+      isValid: false,
+      fields: {},
+    };
+    let emailChecks = 0;
+    const fields: ValidationFields = [
+      {
+        name: "email",
+        tests: [
+          {
+            fn: () => {
+              emailChecks++;
+              return false;
+            },
+            message: "Invalid email",
+          },
+        ],
+      },
+      {
+        name: "items",
+        fields: [
+          {
+            name: "qty",
+            tests: [{ fn: (val) => val > 0, message: "Invalid quantity" }],
+          },
+        ],
+      },
+    ];
+    const source = { email: "john", items: [{ qty: 0 }, { qty: 0 }, { qty: 2 }] };
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.validatePaths(["items.0.qty", "items.2.qty"], {
+      source,
+      stateObj,
+    });
+
+    // Then
+    expect(result).toBe(false);
+    expect(emailChecks).toBe(0);
+    expect(stateObj.fields).toEqual({
+      items: [{ qty: "Invalid quantity" }, undefined, { qty: true }],
+    });
+
+    source.items[0].qty = 1;
+    expect(await validator.validateField("items.0.qty", { source, stateObj })).toBe(true);
+    expect(stateObj.isValid).toBe(true);
+    expect(stateObj.fields).toEqual({
+      items: [{ qty: true }, undefined, { qty: true }],
+    });
+
+    await validator.validateField("email", { source, stateObj });
+    expect(emailChecks).toBe(1);
+    expect(stateObj.isValid).toBe(false);
+    expect(stateObj.fields.email).toEqual("Invalid email");
+  });
+
+  // Tests that revalidating a field also revalidates the fields depending on it.
+  it("test_validate_dependent_fields", async () => {
+    // Given
+    const stateObj: ValidationState = {
+      isValid: false,
+      fields: {},
+    };
+    const fields: ValidationFields = [
+      {
+        name: "password",
+      },
+      {
+        name: "confirmPassword",
+        dependsOn: ["password"],
+        tests: [
+          {
+            fn: (val, { source }) => val === source.password,
+            message: "Passwords don't match",
+          },
+        ],
+      },
+      {
+        name: "users",
+        fields: [
+          { name: "country" },
+          {
+            name: "postal_code",
+            dependsOn: ["country"],
+            tests: [
+              {
+                fn: (val, { source }) => source.country !== "US" || val.length === 5,
+                message: "Invalid postal code",
+              },
+            ],
+          },
+        ],
+      },
+    ];
+    const source = {
+      password: "secret",
+      confirmPassword: "secret",
+      users: [{ country: "AU", postal_code: "1234" }],
+    };
+    const validator = new ObjectValidator(fields);
+    await validator.validate({ source, stateObj });
+    expect(stateObj.isValid).toBe(true);
+
+    // When
+    source.password = "changed";
+    source.users[0].country = "US";
+    await validator.validateField("password", { source, stateObj });
+    await validator.validateField("users.0.country", { source, stateObj });
+
+    // Then
+    expect(stateObj.isValid).toBe(false);
+    expect(stateObj.fields.confirmPassword).toEqual("Passwords don't match");
+    expect((stateObj.fields as any).users[0].postal_code).toEqual(
+      "Invalid postal code"
+    );
+  });
+
+  it("test_dependency_cycles", () => {
+    expect(
+      () =>
+        new ObjectValidator([
+          { name: "a", dependsOn: ["c"] },
+          { name: "b", dependsOn: ["a"] },
+          { name: "c", dependsOn: ["b"] },
+        ])
+    ).toThrow("Dependency cycle detected: a -> c -> b -> a");
+    expect(
+      () =>
+        new ObjectValidator([
+          { name: "items", fields: [{ name: "a", dependsOn: ["b"] }] },
+        ])
+    ).toThrow('Field "a" depends on unknown field "b"');
+  });
+
+  // Tests that aborted runs never write to the state object.
+  it("test_validate_aborted", async () => {
+    // Given
+    const stateObj: ValidationState = {
+      isValid: false,
+      fields: { username: false },
+    };
+    const controller = new AbortController();
+    let receivedSignal: AbortSignal | undefined;
+    const fields: ValidationFields = [
+      {
+        name: "username",
+        tests: [
+          {
+            fn: async (val, { signal }) => {
+              receivedSignal = signal;
+              controller.abort();
+              return true;
+            },
+          },
+        ],
+      },
+    ];
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = validator.validate({
+      source: { username: "john" },
+      stateObj,
+      signal: controller.signal,
+    });
+
+    // Then
+    await expect(result).rejects.toThrow();
+    expect(receivedSignal?.aborted).toBe(true);
+    expect(stateObj.fields.username).toBe(false);
+  });
+
+  // Tests that a slow run superseded by a newer one doesn't clobber the newer results.
+  it("test_validate_superseded", async () => {
+    // Given
+    const stateObj: ValidationState = {
+      isValid: false,
+      fields: { username: false },
+    };
+    const fields: ValidationFields = [
+      {
+        name: "username",
+        tests: [
+          {
+            fn: (val) =>
+              new Promise<boolean>((resolve) =>
+                setTimeout(() => resolve(val === "available"), val === "slow" ? 50 : 0)
+              ),
+            message: "Username not available",
+          },
+        ],
+      },
+    ];
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const first = validator.validate({ source: { username: "slow" }, stateObj });
+    const second = validator.validate({
+      source: { username: "available" },
+      stateObj,
+    });
+
+    // Then
+    expect(await second).toBe(true);
+    expect(await first).toBe(true);
+    expect(stateObj.isValid).toBe(true);
+    expect(stateObj.fields.username).toBe(true);
+  });
+
+  // Tests that a partial run doesn't supersede a full run it only overlaps.
+  it("test_validate_full_run_then_field", async () => {
+    // Given
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+    const fields: ValidationFields = [
+      {
+        name: "username",
+        tests: [
+          {
+            fn: () => new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 20)),
+            message: "Taken",
+          },
+        ],
+      },
+      {
+        name: "email",
+        tests: [{ fn: (email) => email.includes("@"), message: "Invalid email" }],
+      },
+    ];
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const full = validator.validate({ source: { username: "john", email: "john" }, stateObj });
+    const partial = validator.validateField("email", {
+      source: { username: "john", email: "john@example.com" },
+      stateObj,
+    });
+
+    // Then
+    expect(await partial).toBe(true);
+    expect(await full).toBe(false);
+    expect(stateObj.isValid).toBe(false);
+    expect(stateObj.fields).toEqual({ username: "Taken", email: true });
+  });
+
+  // Tests that fields are evaluated concurrently in parallel mode, honouring the 'fields' stop policy.
+  it("test_validate_parallel_fields", async () => {
+    // Given
+    const stateObj: ValidationState = {
+      isValid: false,
+      fields: { email: false, username: false, nickname: false },
+    };
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const remoteCheck = (result: boolean) => async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+      return result;
+    };
+    const fields: ValidationFields = [
+      {
+        name: "email",
+        tests: [{ fn: remoteCheck(true) }],
+      },
+      {
+        name: "username",
+        tests: [{ fn: remoteCheck(false), message: "Username taken" }],
+        stopOnFailure: "fields",
+      },
+      {
+        name: "nickname",
+        tests: [{ fn: remoteCheck(false), message: "Nickname taken" }],
+      },
+    ];
+    const source = { email: "a@b.c", username: "john", nickname: "jj" };
+    const validator = new ObjectValidator(fields).withParallelFields();
+
+    // When
+    const result = await validator.validate({ source, stateObj });
+
+    // Then
+    expect(maxInFlight).toBe(3);
+    expect(result).toBe(false);
+    expect(stateObj.fields).toEqual({
+      email: true,
+      username: "Username taken",
+      nickname: false,
+    });
+  });
+
+  // Tests how far each stop policy interrupts the validation from within nested fields.
+  it("test_validate_stop_scopes", async () => {
+    // Given
+    type StopRules = { stopOnFailure?: StopPolicy; stopOnSuccess?: StopPolicy };
+    let checked: string[] = [];
+    const check = (name: string) => ({
+      fn: () => {
+        checked.push(name);
+        return true;
+      },
+    });
+    type Fixture = {
+      fieldsFor: (rules: StopRules) => ValidationFields;
+      source: object;
+      paths: string[];
+      failure: [string, string];
+    };
+    const line = (order: number, idx: number) => [
+      `orders.${order}.lines.${idx}.product`,
+      `orders.${order}.lines.${idx}.product.qty`,
+      `orders.${order}.lines.${idx}.product.sku`,
+      `orders.${order}.lines.${idx}.price`,
+    ];
+    const orders: Fixture = {
+      fieldsFor: (rules) => [
+        {
+          name: "orders",
+          fields: [
+            {
+              name: "lines",
+              fields: [
+                {
+                  name: "product",
+                  fields: [
+                    {
+                      name: "qty",
+                      tests: [
+                        { fn: (qty) => qty > 0, message: "Invalid qty" },
+                        { fn: (qty) => qty !== 0, message: "Zero qty" },
+                      ],
+                      ...rules,
+                    },
+                    { name: "sku" },
+                  ],
+                  tests: [check("product")],
+                },
+                { name: "price" },
+              ],
+              tests: [check("lines")],
+            },
+            { name: "ref" },
+          ],
+          tests: [check("orders")],
+        },
+        { name: "name" },
+      ],
+      source: {
+        orders: [
+          {
+            lines: [
+              { product: { qty: 0, sku: "A" }, price: 1 },
+              { product: { qty: 1, sku: "B" }, price: 2 },
+            ],
+            ref: "X",
+          },
+          { lines: [{ product: { qty: 1, sku: "C" }, price: 3 }], ref: "Y" },
+        ],
+        name: "John",
+      },
+      paths: [
+        "orders",
+        "orders.0.lines",
+        ...line(0, 0),
+        ...line(0, 1),
+        "orders.0.ref",
+        "orders.1.lines",
+        ...line(1, 0),
+        "orders.1.ref",
+        "name",
+      ],
+      failure: ["orders.0.lines.0.product.qty", "Invalid qty"],
+    };
+    //no arrays: the stop policy is set on either the nested "age" or the top-level "code"
+    const profile = (target: "age" | "code"): Fixture => ({
+      fieldsFor: (rules) => [
+        {
+          name: "profile",
+          fields: [
+            {
+              name: "age",
+              tests: [{ fn: (age) => age >= 18, message: "Invalid age" }],
+              ...(target === "age" && rules),
+            },
+            { name: "email" },
+          ],
+          tests: [check("profile")],
+        },
+        {
+          name: "code",
+          tests: [{ fn: (code) => code.length === 3, message: "Invalid code" }],
+          ...(target === "code" && rules),
+        },
+        { name: "name" },
+      ],
+      source: { profile: { age: 17, email: "j@x.com" }, code: "AB", name: "John" },
+      paths: ["profile", "profile.age", "profile.email", "code", "name"],
+      failure: target === "age" ? ["profile.age", "Invalid age"] : ["code", "Invalid code"],
+    });
+    const after = (fixture: Fixture, path: string) =>
+      fixture.paths.slice(fixture.paths.indexOf(path));
+    const allChecks = ["product", "product", "lines", "product", "lines", "orders"];
+    const cases: Array<[Fixture, StopRules, string[], string[]]> = [
+      [orders, { stopOnFailure: "tests" }, [], allChecks],
+      [orders, { stopOnFailure: "field" }, ["orders.0.lines.0.product.sku"], allChecks],
+      [
+        orders,
+        { stopOnFailure: "parent" },
+        ["orders.0.lines.0.product.sku"],
+        ["product", "lines", "product", "lines", "orders"],
+      ],
+      [
+        orders,
+        { stopOnFailure: "item" },
+        ["orders.0.lines.0.product.sku", "orders.0.lines.0.price"],
+        ["product", "lines", "product", "lines", "orders"],
+      ],
+      [orders, { stopOnFailure: "all" }, after(orders, "orders.0.lines.0.product.sku"), []],
+      [orders, { stopOnFailure: "fields" }, after(orders, "orders.0.lines.0.product.sku"), []],
+      [
+        orders,
+        { stopOnSuccess: "field" },
+        ["orders.0.lines.1.product.sku", "orders.1.lines.0.product.sku"],
+        allChecks,
+      ],
+      [
+        orders,
+        { stopOnSuccess: "parent" },
+        ["orders.0.lines.1.product.sku", "orders.1.lines.0.product.sku"],
+        ["product", "lines", "lines", "orders"],
+      ],
+      [
+        orders,
+        { stopOnSuccess: "item" },
+        [
+          "orders.0.lines.1.product.sku",
+          "orders.0.lines.1.price",
+          "orders.1.lines.0.product.sku",
+          "orders.1.lines.0.price",
+        ],
+        ["product", "lines", "lines", "orders"],
+      ],
+      [orders, { stopOnSuccess: "all" }, after(orders, "orders.0.lines.1.product.sku"), ["product"]],
+      //not inside any array item: the whole validation is stopped
+      [profile("age"), { stopOnFailure: "item" }, after(profile("age"), "profile.email"), []],
+      //at the top level, the parent is the whole validation
+      [profile("code"), { stopOnFailure: "parent" }, ["name"], ["profile"]],
+    ];
+
+    for (const parallel of [false, true]) {
+      for (const [fixture, rules, interrupted, checks] of cases) {
+        checked = [];
+        const validator = new ObjectValidator(fixture.fieldsFor(rules)).withParallelFields(
+          parallel
+        );
+
+        // When
+        const result = await validator.run(fixture.source);
+
+        // Then
+        expect(Object.keys(result.fields).sort()).toEqual(
+          fixture.paths.filter((path) => !interrupted.includes(path)).sort()
+        );
+        expect(checked).toEqual(checks);
+        expect(result.isValid).toBe(false);
+        if (rules.stopOnFailure) {
+          expect(result.fields[fixture.failure[0]]).toBe(fixture.failure[1]);
+        }
+      }
+    }
+  });
+
+  // Tests that a 'parent' stop policy interrupts the remaining items and tests of an array field only.
+  it("test_validate_stop_parent_array", async () => {
+    // Given
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+    let arrayChecked = false;
+    const fields: ValidationFields = [
+      {
+        name: "tags",
+        fields: [
+          {
+            name: "label",
+            tests: [{ fn: (label) => label !== "bad", message: "Bad label" }],
+            stopOnFailure: "parent",
+          },
+        ],
+        tests: [{ fn: () => (arrayChecked = true) }],
+      },
+      { name: "title", emptyFieldMessage: "Title required" },
+    ];
+    const source = { tags: [{ label: "ok" }, { label: "bad" }, { label: "bad" }] };
+    const validator = new ObjectValidator(fields).withFieldsKeyMode("flat");
+
+    // When
+    await validator.validate({ source, stateObj });
+
+    // Then
+    expect(stateObj.isValid).toBe(false);
+    expect(stateObj.fields).toEqual({
+      tags: true,
+      "tags.0.label": true,
+      "tags.1.label": "Bad label",
+      title: "Title required",
+    });
+    expect(stateObj.invalidItems).toEqual({ tags: [1] });
+    expect(arrayChecked).toBe(false);
+  });
+
+  // Tests that a test not completing within timeoutMs fails with the timeout message.
+  it("test_validate_test_timeout", async () => {
+    // Given
+    const stateObj: ValidationState = {
+      isValid: false,
+      fields: { username: false, email: false },
+    };
+    const never = () => new Promise<boolean>(() => {});
+    const fields: ValidationFields = [
+      {
+        name: "username",
+        tests: [{ fn: never, timeoutMs: 5 }],
+      },
+      {
+        name: "email",
+        tests: [
+          { fn: never, timeoutMs: 5, timeoutMessage: "Email check timed out" },
+        ],
+      },
+    ];
+    const source = { username: "john", email: "a@b.c" };
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.validate({ source, stateObj });
+
+    // Then
+    expect(result).toBe(false);
+    expect(stateObj.fields.username).toEqual(DEFAULT_TIMEOUT_ERROR);
+    expect(stateObj.fields.email).toEqual("Email check timed out");
+
+    validator.withTimeoutError("Took too long");
+    await validator.validate({ source, stateObj });
+    expect(stateObj.fields.username).toEqual("Took too long");
+  });
+
+  // Tests that run returns a frozen result without requiring a state object.
+  it("test_run", async () => {
+    // Given
+    const fields: ValidationFields = [
+      {
+        name: "email",
+        emptyFieldMessage: "Email is required",
+      },
+      {
+        name: "password",
+        tests: [
+          { fn: () => true },
+          { fn: () => false, message: "Too short" },
+        ],
+      },
+      {
+        name: "items",
+        fields: [
+          { name: "qty", tests: [{ fn: (val) => val > 0, message: "Invalid quantity" }] },
+        ],
+      },
+      {
+        name: "coupon",
+        skipIf: () => true,
+      },
+    ];
+    const source = { email: "", password: "abc", items: [{ qty: 1 }, { qty: 0 }] };
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.run(source);
+
+    // Then
+    expect(result.isValid).toBe(false);
+    expect(result.fields).toEqual({
+      email: "Email is required",
+      password: "Too short",
+      items: true,
+      "items.0.qty": true,
+      "items.1.qty": "Invalid quantity",
+    });
+    expect(result.errors).toEqual([
+      {
+        path: "email",
+        message: "Email is required",
+        key: "Email is required",
+        code: DEFAULT_EMPTY_MANDATORY_FIELD_ERROR,
+      },
+      {
+        path: "password",
+        message: "Too short",
+        key: "Too short",
+        code: DEFAULT_FAILED_FIELD_ERROR,
+        testIndex: 1,
+      },
+      {
+        path: "items.1.qty",
+        message: "Invalid quantity",
+        key: "Invalid quantity",
+        code: DEFAULT_FAILED_FIELD_ERROR,
+        testIndex: 0,
+      },
+    ]);
+    expect(result.skipped).toEqual(["coupon"]);
+    expect(Object.isFrozen(result)).toBe(true);
+    expect(Object.isFrozen(result.errors[0])).toBe(true);
+  });
+
+  // Tests that run freezes its result without freezing the caller's objects.
+  it("test_run_does_not_freeze_caller_data", async () => {
+    // Given
+    const allowed = ["red", "green"];
+    const fields: ValidationFields = [
+      {
+        name: "color",
+        tests: [{ fn: (color) => allowed.includes(color) || { params: { values: allowed } } }],
+      },
+      {
+        name: "address",
+        tests: [{ fn: (address, { source }) => ({ params: { address, source } }) }],
+      },
+      { name: "createdAt" },
+    ];
+    const source = { color: "blue", address: { city: "Rome" }, createdAt: new Date() };
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.run(source, undefined, { returnValue: true });
+
+    // Then
+    expect(result.errors[0].params).toEqual({ values: ["red", "green"] });
+    expect(Object.isFrozen(result.errors[0].params?.values)).toBe(true);
+    expect(Object.isFrozen(allowed)).toBe(false);
+    expect(Object.isFrozen(source)).toBe(false);
+    expect(Object.isFrozen(source.address)).toBe(false);
+    expect(Object.isFrozen(source.createdAt)).toBe(false);
+    expect(result.value?.createdAt).toBe(source.createdAt);
+  });
+
+  // Tests that error codes and params flow into the result.
+  it("test_run_error_codes", async () => {
+    // Given
+    const fields: ValidationFields = [
+      {
+        name: "password",
+        collectFailures: true,
+        tests: [
+          {
+            fn: (val) => val.length >= 8 || { params: { min: 8, actual: val.length } },
+            code: "too-short",
+            message: ({ params }) => `At least ${params?.min} characters`,
+          },
+          {
+            fn: (val) => val !== "123456" || { code: "blacklisted" },
+            code: "weak",
+            message: "Seriously?!?",
+          },
+          {
+            fn: () => false,
+          },
+        ],
+      },
+    ];
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.run({ password: "123456" });
+
+    // Then
+    expect(result.errors).toEqual([
+      {
+        path: "password",
+        message: "At least 8 characters",
+        key: "At least 8 characters",
+        code: "too-short",
+        params: { min: 8, actual: 6 },
+        testIndex: 0,
+      },
+      {
+        path: "password",
+        message: "Seriously?!?",
+        key: "Seriously?!?",
+        code: "blacklisted",
+        testIndex: 1,
+      },
+      {
+        path: "password",
+        message: DEFAULT_FAILED_FIELD_ERROR,
+        key: DEFAULT_FAILED_FIELD_ERROR,
+        code: FAILED_FIELD_CODE,
+        testIndex: 2,
+      },
+    ]);
+  });
+
+  // Tests that messages are translated through the message catalogue and can be re-localized.
+  it("test_message_catalogue", async () => {
+    // Given
+    ObjectValidator.setDefaultMandatoryFieldError(DEFAULT_EMPTY_MANDATORY_FIELD_ERROR);
+    const catalogue = createMessageCatalogue(
+      {
+        en: {
+          [EMPTY_MANDATORY_FIELD_CODE]: "This field is required",
+          "too-short": "At least {min} characters",
+        },
+        it: {
+          [EMPTY_MANDATORY_FIELD_CODE]: "Campo obbligatorio",
+          "too-short": "Almeno {min} caratteri",
+          "Seriously?!?": "Sul serio?!?",
+          [FAILED_FIELD_CODE]: "Valore non valido",
+        },
+      },
+      "en"
+    );
+    const fields: ValidationFields = [
+      { name: "email" },
+      { name: "phone", emptyFieldMessage: "Phone is required" },
+      { name: "confirm", tests: [{ fn: () => false, message: "Passwords don't match" }] },
+      { name: "nickname", tests: [{ fn: () => false, defaultMessage: "Invalid nickname" }] },
+      {
+        name: "password",
+        collectFailures: true,
+        tests: [
+          {
+            fn: (val) => val.length >= 8 || { params: { min: 8 } },
+            code: "too-short",
+          },
+          { fn: (val) => val !== "123456", message: "Seriously?!?" },
+        ],
+      },
+    ];
+    const source = { email: "", phone: "", confirm: "x", nickname: "x", password: "123456" };
+    const validator = new ObjectValidator(fields).withMessageCatalogue(catalogue);
+
+    // When
+    const result = await validator.run(source, undefined, { locale: "it" });
+
+    // Then
+    expect(result.fields).toEqual({
+      email: "Campo obbligatorio",
+      phone: "Phone is required",
+      confirm: "Passwords don't match",
+      nickname: "Valore non valido",
+      password: ["Almeno 8 caratteri", "Sul serio?!?"],
+    });
+    const english = validator.localize(result, "en");
+    expect(english.fields).toEqual({
+      email: "This field is required",
+      phone: "Phone is required",
+      confirm: "Passwords don't match",
+      nickname: "Invalid nickname",
+      password: ["At least 8 characters", "Seriously?!?"],
+    });
+    expect(english.errors[0].key).toEqual(result.errors[0].key);
+
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+    await validator.validate({ source, stateObj, locale: "it" });
+    expect(stateObj.fields.email).toEqual("Campo obbligatorio");
+  });
+
+  // Tests that a typed validator checks the fields against the model type.
+  it("test_typed_validator", async () => {
+    // Given
+    type Order = {
+      email: string;
+      address: { street: string; postal_code: number };
+      items: Array<{ sku: string; qty: number }>;
+    };
+    const fields: ValidationFields<Order> = [
+      {
+        name: "email",
+        tests: [{ fn: (value) => value.includes("@") }],
+      },
+      {
+        name: "address.postal_code",
+        tests: [{ fn: (value) => value.toFixed() === String(value) }],
+      },
+      {
+        name: "items",
+        fields: [{ name: "qty", tests: [{ fn: (value) => value > 0 }] }],
+      },
+    ];
+    const invalidFields: ValidationFields<Order> = [
+      // @ts-expect-error unknown path
+      { name: "address.city" },
+      // @ts-expect-error wrong value type
+      { name: "email", tests: [{ fn: (value: number) => value > 0 }] },
+      {
+        name: "items",
+        // @ts-expect-error unknown item path
+        fields: [{ name: "quantity" }],
+      },
+    ];
+    const stateObj = createValidationStateForFields<Order>([
+      "email",
+      "items.0.qty",
+      // @ts-expect-error unknown state path
+      "items.0.quantity",
+    ]);
+    const nestedState: ValidationState<Order> = { isValid: false, fields: {} };
+    const source: Order = {
+      email: "john@example.com",
+      address: { street: "Main St", postal_code: 4890 },
+      items: [{ sku: "A1", qty: 1 }],
+    };
+
+    // When
+    const result = await new ObjectValidator<Order>(fields)
+      .withFieldsKeyMode("flat")
+      .validate({ source, stateObj });
+    await new ObjectValidator<Order>(fields).validate({ source, stateObj: nestedState });
+
+    // Then
+    expect(result).toBe(true);
+    expect(stateObj.fields["items.0.qty"]).toBe(true);
+    expect(nestedState.fields).toEqual({
+      email: true,
+      address: { postal_code: true },
+      items: [{ qty: true }],
+    });
+    expect(getFieldState(nestedState.fields, "items.0.qty")).toBe(true);
+    expect(invalidFields).toHaveLength(3);
+  });
+
+  // Tests that transformed values are tested and returned in a copy of the source.
+  it("test_run_transform", async () => {
+    // Given
+    const fields: ValidationFields = [
+      {
+        name: "email",
+        transform: (value) => value.trim().toLowerCase(),
+        tests: [{ fn: (value) => value === "john@example.com" }],
+      },
+      {
+        name: "nickname",
+        isOptional: true,
+        transform: (value) => value.trim(),
+      },
+      {
+        name: "items",
+        fields: [
+          {
+            name: "qty",
+            transform: (value) => Number(value),
+            tests: [{ fn: (value) => typeof value === "number" && value > 0 }],
+          },
+        ],
+      },
+    ];
+    const source = {
+      email: "  John@Example.com ",
+      nickname: "   ",
+      items: [{ qty: "2", sku: "A1" }],
+      notes: "untouched",
+    };
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.run(source, undefined, { returnValue: true });
+
+    // Then
+    expect(result.isValid).toBe(true);
+    expect(result.value).toEqual({
+      email: "john@example.com",
+      nickname: "",
+      items: [{ qty: 2, sku: "A1" }],
+      notes: "untouched",
+    });
+    expect(source.email).toEqual("  John@Example.com ");
+    expect((await validator.run(source)).value).toBeUndefined();
+  });
+
+  // Tests that strict mode reports properties not covered by any field and that they can be stripped.
+  it("test_strict_mode", async () => {
+    // Given
+    const fields: ValidationFields = [
+      { name: "email" },
+      { name: "address.postal_code" },
+      { name: "meta", isOptional: true },
+      {
+        name: "items",
+        fields: [{ name: "qty" }],
+      },
+    ];
+    const source = {
+      email: "john@example.com",
+      isAdmin: true,
+      address: { postal_code: "4890", city: "Cairns" },
+      meta: { anything: "goes" },
+      items: [{ qty: 1, price: 0 }],
+    };
+    const validator = new ObjectValidator(fields)
+      .withStrictMode()
+      .withUnknownPropertyError(({ currentFieldName }) => `Unexpected "${currentFieldName}"`);
+
+    // When
+    const result = await validator.run(source, undefined, { stripUnknown: true });
+
+    // Then
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(({ path, message, code }) => ({ path, message, code }))).toEqual([
+      { path: "isAdmin", message: 'Unexpected "isAdmin"', code: UNKNOWN_PROPERTY_CODE },
+      { path: "address.city", message: 'Unexpected "address.city"', code: UNKNOWN_PROPERTY_CODE },
+      { path: "items.0.price", message: 'Unexpected "price"', code: UNKNOWN_PROPERTY_CODE },
+    ]);
+    expect(result.value).toEqual({
+      email: "john@example.com",
+      address: { postal_code: "4890" },
+      meta: { anything: "goes" },
+      items: [{ qty: 1 }],
+    });
+
+    const lenient = await new ObjectValidator(fields).run(source, undefined, {
+      stripUnknown: true,
+    });
+    expect(lenient.isValid).toBe(true);
+    expect(lenient.value).toEqual(result.value);
+  });
+
+  // Tests that wildcard names are expanded against the source.
+  it("test_validate_wildcard_fields", async () => {
+    // Given
+    const names: string[] = [];
+    const fields: ValidationFields = [
+      {
+        name: "translations.*.title",
+        tests: [
+          {
+            fn: (value, { currentFieldName }) => {
+              names.push(currentFieldName);
+              return value.length <= 10;
+            },
+            message: "Too long",
+          },
+        ],
+      },
+      {
+        name: "prices[*]",
+        tests: [{ fn: (value) => value > 0, message: "Invalid price" }],
+      },
+    ];
+    const source = {
+      translations: { en: { title: "Hello" }, it: { title: "Buongiorno a tutti" } },
+      prices: [10, 0],
+    };
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.run(source);
+
+    // Then
+    expect(names).toEqual(["translations.en.title", "translations.it.title"]);
+    expect(result.fields).toEqual({
+      "translations.en.title": true,
+      "translations.it.title": "Too long",
+      "prices.0": true,
+      "prices.1": "Invalid price",
+    });
+
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+    source.translations.it.title = "Ciao";
+    await validator.validateField("translations.*.title", { source, stateObj });
+    expect(stateObj.isValid).toBe(true);
+    expect(stateObj.fields).toEqual({
+      translations: { en: { title: true }, it: { title: true } },
+    });
+  });
+
+  it("test_validate_array_level_tests", async () => {
+    // Given
+    const received: Array<number[] | undefined> = [];
+    const fields: ValidationFields = [
+      {
+        name: "items",
+        fields: [{ name: "qty", tests: [{ fn: (qty) => qty > 0, message: "Invalid qty" }] }],
+        tests: [
+          {
+            fn: (items, { invalidItems }) => {
+              received.push(invalidItems);
+              return items.length <= 3;
+            },
+            message: "Too many items",
+          },
+        ],
+      },
+    ];
+    const source = { items: [{ qty: 1 }, { qty: 0 }, { qty: -1 }] };
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.run(source);
+
+    // Then
+    expect(received).toEqual([[1, 2]]);
+    expect(result.isValid).toBe(false);
+    expect(result.fields.items).toBe(true);
+    expect(result.invalidItems).toEqual({ items: [1, 2] });
+
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+    await validator.validate({ source, stateObj });
+    expect(stateObj.invalidItems).toEqual({ items: [1, 2] });
+
+    source.items[1].qty = 1;
+    source.items[0].qty = 0;
+    await validator.validateField("items.1.qty", { source, stateObj });
+    expect(stateObj.invalidItems).toEqual({ items: [2] }); //item 0 wasn't revalidated
+    await validator.validateField("items.0", { source, stateObj });
+    expect(stateObj.invalidItems).toEqual({ items: [0, 2] });
+
+    source.items = [{ qty: 1 }];
+    await validator.validateField("items", { source, stateObj });
+    expect(stateObj.invalidItems).toEqual({ items: [] });
+    expect(stateObj.isValid).toBe(true);
+  });
+
+  // Tests that array-level failures don't overwrite the items' state in the nested key mode.
+  it("test_validate_array_level_tests_nested", async () => {
+    // Given
+    const fields: ValidationFields = [
+      {
+        name: "items",
+        fields: [{ name: "qty", tests: [{ fn: (qty) => qty > 0, message: "bad qty" }] }],
+        tests: [{ fn: (items) => items.length <= 1, message: "Must have at most 1 items" }],
+      },
+    ];
+    const source = { items: [{ qty: 0 }, { qty: 1 }] };
+    const validator = new ObjectValidator(fields);
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+
+    // When
+    await validator.validate({ source, stateObj });
+
+    // Then
+    expect(stateObj.isValid).toBe(false);
+    expect(stateObj.fields).toEqual({ items: [{ qty: "bad qty" }, { qty: true }] });
+    expect(stateObj.parentFields).toEqual({ items: "Must have at most 1 items" });
+    expect(stateObj.invalidItems).toEqual({ items: [0] });
+
+    source.items[0].qty = 1;
+    await validator.validateField("items.0.qty", { source, stateObj });
+    expect(stateObj.fields).toEqual({ items: [{ qty: true }, { qty: true }] });
+    expect(stateObj.parentFields).toEqual({ items: "Must have at most 1 items" });
+    expect(stateObj.isValid).toBe(false);
+
+    source.items = [{ qty: 1 }];
+    await validator.validateField("items", { source, stateObj });
+    expect(stateObj.fields).toEqual({ items: [{ qty: true }] });
+    expect(stateObj.parentFields).toEqual({});
+    expect(stateObj.isValid).toBe(true);
+  });
+
+  it("test_validation_hooks", async () => {
+    // Given
+    const events: string[] = [];
+    const instanceHooks: ValidationHooks = {
+      validationStart: ({ paths }) => events.push(`start ${paths ?? "all"}`),
+      fieldStart: ({ path }) => events.push(`field ${path}`),
+      testResult: ({ path, testIndex, passed, error }) =>
+        events.push(`test ${path}[${testIndex}] ${passed} ${error?.code ?? ""}`.trim()),
+      fieldEnd: ({ path, valid, skipped }) => events.push(`end ${path} ${valid} ${skipped}`),
+      validationEnd: ({ valid }) => events.push(`end ${valid}`),
+    };
+    const durations: number[] = [];
+    const fields: ValidationFields = [
+      {
+        name: "username",
+        tests: [
+          { fn: (value) => new Promise((resolve) => setTimeout(() => resolve(!!value), 20)) },
+          { fn: () => false, code: "taken" },
+        ],
+      },
+      { name: "coupon", skipIf: () => true },
+    ];
+    const validator = new ObjectValidator(fields).withHooks(instanceHooks);
+
+    // When
+    await validator.run({ username: "john" }, undefined, {
+      hooks: { testResult: ({ durationMs }) => durations.push(durationMs) },
+    });
+
+    // Then
+    expect(events).toEqual([
+      "start all",
+      "field username",
+      "test username[0] true",
+      "test username[1] false taken",
+      "end username false false",
+      "field coupon",
+      "end coupon true true",
+      "end false",
+    ]);
+    expect(durations[0]).toBeGreaterThanOrEqual(15);
+
+    events.length = 0;
+    validator.removeHooks(instanceHooks);
+    const settingsEvents: string[] = [];
+    await validator.validateField("coupon", {
+      source: {},
+      stateObj: { isValid: false, fields: {} },
+      hooks: {
+        validationStart: ({ paths }) => settingsEvents.push(`start ${paths}`),
+        validationEnd: ({ valid }) => settingsEvents.push(`end ${valid}`),
+      },
+    });
+    expect(events).toEqual([]);
+    expect(settingsEvents).toEqual(["start coupon", "end true"]);
+  });
+
+  it("test_validate_field_status", async () => {
+    // Given
+    let resolveAvailability: (available: boolean) => void = () => {};
+    const fields: ValidationFields = [
+      { name: "name" },
+      {
+        name: "username",
+        tests: [
+          {
+            fn: () => new Promise<boolean>((resolve) => (resolveAvailability = resolve)),
+            message: "Taken",
+          },
+        ],
+      },
+    ];
+    const source = { name: "John", username: "john" };
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+    const validator = new ObjectValidator(fields).withFieldStatus();
+
+    // When
+    const validation = validator.validate({ source, stateObj });
+    await new Promise((resolve) => setTimeout(resolve));
+
+    // Then
+    expect(stateObj.fields).toEqual({ name: true }); //written as soon as it settled
+    expect(stateObj.status?.name).toMatchObject({ pending: false, touched: false, dirty: false });
+    expect(stateObj.status?.username.pending).toBe(true);
+
+    resolveAvailability(true);
+    expect(await validation).toBe(true);
+    expect(stateObj.status?.username).toEqual({
+      pending: false,
+      touched: false,
+      dirty: false,
+      validatedAt: expect.any(Number),
+    });
+
+    source.username = "johnny";
+    const fieldValidation = validator.validateField("username", { source, stateObj });
+    await new Promise((resolve) => setTimeout(resolve));
+    resolveAvailability(false);
+    await fieldValidation;
+    expect(stateObj.fields.username).toBe("Taken");
+    expect(stateObj.status?.username).toMatchObject({ pending: false, touched: true, dirty: true });
+    expect(stateObj.status?.name.touched).toBe(false);
+
+    const compatState: ValidationState = { isValid: false, fields: {} };
+    const compatValidation = new ObjectValidator(fields).validate({ source, stateObj: compatState });
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(compatState.fields).toEqual({}); //written at the end of the validation
+    resolveAvailability(true);
+    await compatValidation;
+    expect(compatState).toEqual({
+      isValid: true,
+      fields: { name: true, username: true },
+      invalidItems: {},
+      skipped: [],
+      warnings: {},
+      parentFields: {},
+    });
+  });
+
+  // Tests that the states written with field status before an abort keep isValid consistent.
+  it("test_validate_field_status_aborted", async () => {
+    // Given
+    let resolveB: (valid: boolean) => void = () => {};
+    const fields: ValidationFields = [
+      { name: "a", tests: [{ fn: async () => false, message: "a bad" }] },
+      { name: "b", tests: [{ fn: () => new Promise<boolean>((resolve) => (resolveB = resolve)) }] },
+    ];
+    const stateObj: ValidationState = { isValid: true, fields: { a: true, b: true } };
+    const controller = new AbortController();
+    const validator = new ObjectValidator(fields).withFieldStatus();
+
+    // When
+    const validation = validator.validate({
+      source: { a: "x", b: "y" },
+      stateObj,
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve));
+    controller.abort();
+    resolveB(true);
+
+    // Then
+    await expect(validation).rejects.toThrow();
+    expect(stateObj).toMatchObject({ isValid: false, fields: { a: "a bad", b: true } });
+    expect(stateObj).not.toHaveProperty("parentFields");
+    expect(stateObj.status?.b.pending).toBe(false);
+  });
+
+  it("test_validate_flat_fields_key_mode", async () => {
+    // Given
+    const fields: ValidationFields = [
+      {
+        name: "address",
+        fields: [
+          { name: "street" },
+          { name: "postal_code", tests: [{ fn: (value) => /^\d{5}$/.test(value), message: "Invalid" }] },
+        ],
+      },
+      {
+        name: "items",
+        fields: [{ name: "qty", tests: [{ fn: (qty) => qty <= 10, message: "Invalid qty" }] }],
+      },
+    ];
+    const source = {
+      address: { street: "Main St", postal_code: "123" },
+      items: [{ qty: 1 }, { qty: 20 }],
+    };
+    const stateObj: ValidationState = createValidationStateForFields([
+      "address.street",
+      "address.postal_code",
+    ]);
+    const validator = new ObjectValidator(fields).withFieldsKeyMode("flat");
+
+    // When
+    await validator.validate({ source, stateObj });
+
+    // Then
+    expect(stateObj.fields).toEqual({
+      address: true,
+      "address.street": true,
+      "address.postal_code": "Invalid",
+      items: true,
+      "items.0.qty": true,
+      "items.1.qty": "Invalid qty",
+    });
+
+    source.address.postal_code = "12345";
+    source.items = [{ qty: 2 }];
+    await validator.validatePaths(["address.postal_code", "items"], { source, stateObj });
+    expect(stateObj.isValid).toBe(true);
+    expect(stateObj.fields["address.postal_code"]).toBe(true);
+    expect(stateObj.fields["items.1.qty"]).toBe(false); //the item was removed
+  });
+
+  it("test_fields_state_shape_helpers", () => {
+    // Given
+    const nested = { address: { postal_code: "Invalid" }, items: [{ qty: true }, { qty: ["A", "B"] }] };
+    const flat = { address: true, "address.postal_code": "Invalid", "items.0.qty": true, "items.1.qty": ["A", "B"] };
+
+    // When
+    const flattened = toFlatFields(nested);
+    const nestedAgain = toNestedFields(flat);
+
+    // Then
+    expect(flattened).toEqual({
+      "address.postal_code": "Invalid",
+      "items.0.qty": true,
+      "items.1.qty": ["A", "B"],
+    });
+    expect(nestedAgain).toEqual(nested);
+    expect(getFieldState(nested, "items.1.qty")).toEqual(["A", "B"]);
+    expect(getFieldState(flat, "items.1.qty")).toEqual(["A", "B"]);
+    expect(getFieldState(flat, "address")).toBe(true);
+    expect(getFieldState(nested, "address")).toEqual({ postal_code: "Invalid" });
+    expect(getFieldState({ items: { "0.qty": true } }, "items.0.qty")).toBe(true);
+    expect(getFieldState(nested, "items.2.qty")).toBeUndefined();
+  });
+
+  it("test_compose_validators", async () => {
+    // Given
+    const address = new ObjectValidator<any>([
+      { name: "street" },
+      { name: "postal_code", tests: [{ fn: (value) => /^\d{5}$/.test(value) }] },
+    ])
+      .withMandatoryFieldError("Address field required")
+      .withFailedFieldDefaultError("Invalid address field");
+    const account = new ObjectValidator<any>([
+      { name: "email" },
+      { name: "password", dependsOn: ["email"] },
+      { name: "nickname", isOptional: true },
+    ]).withMandatoryFieldError("Required");
+
+    // When
+    const order = account
+      .pick("email", "password")
+      .merge(address.mount("billing"), address.mount("shipping", { isOptional: true }));
+    const update = account.omit("email").makeOptional("password").makeRequired("nickname");
+    const orderResult = await order.run({
+      email: "john@example.com",
+      billing: { street: "", postal_code: "123" },
+    });
+    const updateResult = await update.run({});
+
+    // Then
+    expect(orderResult.fields).toEqual({
+      email: true,
+      password: "Required",
+      billing: true,
+      "billing.street": "Address field required",
+      "billing.postal_code": "Invalid address field",
+    });
+    expect(updateResult.fields).toEqual({ nickname: "Required" });
+    expect(account.getFields()).toHaveLength(3); //the original validator isn't changed
+    expect(
+      address.mount("items").makeOptional("items.street").getFields()[0].fields?.[0].isOptional
+    ).toBe(true);
+  });
+
+  it("test_validate_conditional_rules", async () => {
+    // Given
+    const isBusiness = ({ source }: ValidationContext) => source.isBusiness;
+    const fields: ValidationFields = [
+      {
+        name: "vat",
+        when: isBusiness,
+        then: { tests: [{ fn: (vat) => /^IT\d{11}$/.test(vat), message: "Invalid VAT" }] },
+        otherwise: { isOptional: true },
+      },
+      ...conditionalGroup(
+        isBusiness,
+        [
+          { name: "companyName" },
+          { name: "contact", emptyFieldMessage: "Contact required" },
+          { name: "website", skipIf: ({ source }) => !source.hasWebsite },
+        ],
+        [{ name: "firstName" }, { name: "contact", isOptional: true }]
+      ),
+    ];
+    const validator = new ObjectValidator(fields).withMandatoryFieldError("Required");
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+
+    // When
+    const business = await validator.run({ isBusiness: true, vat: "123" });
+    await validator.validate({ source: { isBusiness: false, firstName: "John" }, stateObj });
+
+    // Then
+    expect(business.fields).toEqual({
+      vat: "Invalid VAT",
+      companyName: "Required",
+      contact: "Contact required",
+    });
+    expect(business.skipped).toEqual(["website", "firstName"]);
+    expect(stateObj.isValid).toBe(true);
+    expect(stateObj.fields).toEqual({ firstName: true });
+    expect(stateObj.skipped).toEqual(["companyName", "website"]);
+
+    await validator.validateField("firstName", {
+      source: { isBusiness: true, companyName: "ACME", contact: "John" },
+      stateObj,
+    });
+    expect(stateObj.skipped).toEqual(["companyName", "website", "firstName"]);
+  });
+
+  // Tests that a conditionalGroup member's own when condition applies within its group.
+  it("test_validate_conditional_group_member_when", async () => {
+    // Given
+    const isBusiness = ({ source }: ValidationContext) => source.isBusiness;
+    const itVat = { fn: (vat: string) => /^IT\d{11}$/.test(vat), message: "Invalid VAT" };
+    const fields: ValidationFields = conditionalGroup(isBusiness, [
+      {
+        name: "vat",
+        when: ({ source }) => source.country === "IT",
+        then: { tests: [itVat] },
+        otherwise: { isOptional: true },
+      },
+    ]);
+    const validator = new ObjectValidator(fields).withMandatoryFieldError("Required");
+
+    // When
+    const italian = await validator.run({ isBusiness: true, country: "IT", vat: "FR1" });
+    const french = await validator.run({ isBusiness: true, country: "FR" });
+    const person = await validator.run({ isBusiness: false, country: "IT" });
+
+    // Then
+    expect(italian.fields).toEqual({ vat: "Invalid VAT" });
+    expect(french.isValid).toBe(true);
+    expect(french.fields).toEqual({});
+    expect(person.isValid).toBe(true);
+    expect(person.skipped).toEqual(["vat"]);
+  });
+
+  it("test_validate_warnings", async () => {
+    // Given
+    const fields: ValidationFields = [
+      {
+        name: "password",
+        tests: [
+          { fn: (value) => /\W/.test(value), message: "Weak password", severity: "warning" },
+          { fn: (value) => value.length >= 8, message: "Too short" },
+          { fn: (value) => value !== "password1", message: "Common password", severity: "info" },
+        ],
+        stopOnFailure: "tests",
+      },
+      {
+        name: "email",
+        tests: [{ fn: (value) => !value.endsWith("@gmial.com"), message: "Typo?", severity: "warning" }],
+      },
+    ];
+    const validator = new ObjectValidator(fields);
+    const stateObj: ValidationState = { isValid: false, fields: {} };
+
+    // When
+    const result = await validator.run({ password: "password1", email: "john@gmial.com" });
+    await validator.validate({ source: { password: "pass", email: "john@gmial.com" }, stateObj });
+
+    // Then
+    expect(result.isValid).toBe(true);
+    expect(result.fields).toEqual({ password: true, email: true });
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map(({ path, message, severity }) => [path, message, severity])).toEqual([
+      ["password", "Weak password", "warning"],
+      ["password", "Common password", "info"],
+      ["email", "Typo?", "warning"],
+    ]);
+
+    expect(stateObj.isValid).toBe(false);
+    expect(stateObj.fields).toEqual({ password: "Too short", email: true });
+    expect(stateObj.warnings?.password.map(({ message }) => message)).toEqual(["Weak password"]);
+    expect(stateObj.warnings?.email[0]).toMatchObject({ code: "field-validation-failed", testIndex: 0 });
+
+    await validator.validateField("email", { source: { password: "pass", email: "john@gmail.com" }, stateObj });
+    expect(Object.keys(stateObj.warnings ?? {})).toEqual(["password"]);
+  });
+
   // Tests dynamic validation error messages
   it("test_validate_empty_mandatory_field", async () => {
     // Given
@@ -0,0 +1,168 @@
+import { ObjectValidator, ValidationFields, rules } from "../src/index.ts";
+import { describe, expect, it } from "vitest";
+
+describe("rules", () => {
+  it("test_rules_pass", async () => {
+    // Given
+    const fields: ValidationFields = [
+      { name: "password", tests: [rules.minLength(8), rules.maxLength(16)] },
+      { name: "confirmPassword", tests: [rules.equalsField("password")] },
+      { name: "age", tests: [rules.range(18, 99)] },
+      { name: "code", tests: [rules.pattern(/^[A-Z]{3}$/g)] },
+      { name: "country", tests: [rules.oneOf(["AU", "US"])] },
+      { name: "email", tests: [rules.email()] },
+      { name: "website", tests: [rules.url()] },
+      { name: "mirror", tests: [rules.url(["ftp"])] },
+    ];
+    const source = {
+      password: "12345678",
+      confirmPassword: "12345678",
+      age: 18,
+      code: "ABC",
+      country: "AU",
+      email: "john@example.com",
+      website: "https://example.com",
+      mirror: "ftp://example.com",
+    };
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const result = await validator.run(source);
+    const again = await validator.run(source);
+
+    // Then
+    expect(result.isValid).toBe(true);
+    expect(again.isValid).toBe(true);
+  });
+
+  it("test_rules_fail_with_codes_and_params", async () => {
+    // Given
+    const fields: ValidationFields = [
+      { name: "password", tests: [rules.minLength(8), rules.maxLength(2)] },
+      { name: "confirmPassword", tests: [rules.equalsField("password", "No match")] },
+      { name: "age", tests: [rules.range(18, 99)] },
+      { name: "code", tests: [rules.pattern(/^[A-Z]{3}$/)] },
+      { name: "country", tests: [rules.oneOf(["AU", "US"])] },
+      { name: "email", tests: [rules.email()] },
+      { name: "website", tests: [rules.url()] },
+    ];
+    const source = {
+      password: "123",
+      confirmPassword: "1234",
+      age: 17,
+      code: "AB",
+      country: "UK",
+      email: "john@example",
+      website: "ftp://example.com",
+    };
+    const validator = new ObjectValidator(fields).withCollectedFailures();
+
+    // When
+    const result = await validator.run(source);
+
+    // Then
+    expect(result.isValid).toBe(false);
+    expect(
+      result.errors.map(({ path, code, params, message }) => ({
+        path,
+        code,
+        params,
+        message,
+      }))
+    ).toEqual([
+      {
+        path: "password",
+        code: "min-length",
+        params: { min: 8 },
+        message: "Must be at least 8 characters long",
+      },
+      {
+        path: "password",
+        code: "max-length",
+        params: { max: 2 },
+        message: "Must be at most 2 characters long",
+      },
+      {
+        path: "confirmPassword",
+        code: "not-equal-to-field",
+        params: { field: "password" },
+        message: "No match",
+      },
+      {
+        path: "age",
+        code: "out-of-range",
+        params: { min: 18, max: 99 },
+        message: "Must be between 18 and 99",
+      },
+      {
+        path: "code",
+        code: "pattern-mismatch",
+        params: { pattern: "^[A-Z]{3}$" },
+        message: "Invalid format",
+      },
+      {
+        path: "country",
+        code: "not-one-of",
+        params: { values: ["AU", "US"] },
+        message: "Must be one of: AU, US",
+      },
+      {
+        path: "email",
+        code: "invalid-email",
+        params: undefined,
+        message: "Invalid email address",
+      },
+      {
+        path: "website",
+        code: "invalid-url",
+        params: undefined,
+        message: "Invalid URL",
+      },
+    ]);
+  });
+
+  it("test_array_rules", async () => {
+    // Given
+    const fields: ValidationFields = [
+      {
+        name: "addresses",
+        tests: [
+          rules.minItems(1),
+          rules.maxItems(2),
+          rules.uniqueItems("city"),
+          rules.someItems((address) => address.primary, "One address must be primary"),
+        ],
+        collectFailures: true,
+      },
+      { name: "tags", tests: [rules.uniqueItems()] },
+    ];
+    const validator = new ObjectValidator(fields);
+
+    // When
+    const valid = await validator.run({
+      addresses: [{ city: "Rome", primary: true }, { city: "Milan" }],
+      tags: ["a", "b"],
+    });
+    const invalid = await validator.run({
+      addresses: [{ city: "Rome" }, { city: "Milan" }, { city: "Rome" }],
+      tags: ["a", "b", "a"],
+    });
+
+    // Then
+    expect(valid.isValid).toBe(true);
+    expect(invalid.fields).toEqual({
+      addresses: [
+        "Must have at most 2 items",
+        "Items must have a unique city",
+        "One address must be primary",
+      ],
+      tags: "Items must be unique",
+    });
+    expect(invalid.errors.map(({ code, params }) => ({ code, params }))).toEqual([
+      { code: "max-items", params: { max: 2 } },
+      { code: "duplicate-items", params: { key: "city", indices: [2] } },
+      { code: "no-matching-item", params: undefined },
+      { code: "duplicate-items", params: { key: undefined, indices: [2] } },
+    ]);
+  });
+});
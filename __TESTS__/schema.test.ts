@@ -0,0 +1,127 @@
+import { JsonField, ObjectValidator, RuleRegistry, SchemaError } from "../src/index.ts";
+import { describe, expect, it } from "vitest";
+
+describe("RuleRegistry", () => {
+  it("test_compile_json_fields", async () => {
+    // Given
+    const json: JsonField[] = JSON.parse(
+      JSON.stringify([
+        {
+          name: "password",
+          tests: [
+            { rule: "minLength", params: { min: 8 }, message: "Too short" },
+            { rule: "notPassword" },
+          ],
+          stopOnFailure: "tests",
+        },
+        {
+          name: "postal_code",
+          skipIf: { condition: "fieldNotEquals", params: { field: "country", value: "US" } },
+          tests: [{ rule: "pattern", params: { pattern: "^[0-9]{5}$" } }],
+        },
+        {
+          name: "items",
+          fields: [{ name: "qty", tests: [{ rule: "range", params: { min: 1, max: 10 } }] }],
+        },
+      ])
+    );
+    const registry = new RuleRegistry().registerRule("notPassword", {
+      create: (params, message) => ({
+        fn: (value) => value !== "password",
+        code: "blacklisted",
+        message: message ?? "Seriously?!?",
+      }),
+    });
+
+    // When
+    const validator = new ObjectValidator(registry.compile(json));
+    const result = await validator.run({
+      password: "password",
+      country: "AU",
+      postal_code: "abc",
+      items: [{ qty: 11 }],
+    });
+
+    // Then
+    expect(result.fields).toEqual({
+      password: "Seriously?!?",
+      items: true,
+      "items.0.qty": "Must be between 1 and 10",
+    });
+    expect(result.skipped).toEqual(["postal_code"]);
+  });
+
+  it("test_compile_when_conditions", async () => {
+    // Given
+    const json: JsonField[] = [
+      {
+        name: "vat",
+        when: { condition: "fieldEquals", params: { field: "isBusiness", value: true } },
+        then: { tests: [{ rule: "pattern", params: { pattern: "^IT[0-9]{11}$" } }] },
+        otherwise: { isOptional: true },
+      },
+      {
+        name: "sdiCode",
+        when: { condition: "fieldEquals", params: { field: "isBusiness", value: true } },
+        then: { skipIf: { condition: "fieldNotEquals", params: { field: "country", value: "IT" } } },
+      },
+    ];
+    const validator = new ObjectValidator(new RuleRegistry().compile(json)).withMandatoryFieldError(
+      "Required"
+    );
+
+    // When
+    const business = await validator.run({ isBusiness: true, country: "IT", vat: "123" });
+    const person = await validator.run({ isBusiness: false });
+    const foreign = await validator.run({ isBusiness: true, country: "FR", vat: "IT12345678901" });
+
+    // Then
+    expect(business.fields).toEqual({ vat: "Invalid format", sdiCode: "Required" });
+    expect(person.isValid).toBe(true);
+    expect(foreign.isValid).toBe(true);
+    expect(foreign.skipped).toEqual(["sdiCode"]);
+  });
+
+  it("test_compile_errors", () => {
+    const registry = new RuleRegistry();
+    const compile = (json: any) => () => registry.compile(json);
+
+    expect(compile([{ name: "a", tests: [{ rule: "nope" }] }])).toThrow(
+      'fields[0].tests[0]: unknown rule "nope"'
+    );
+    expect(compile([{ name: "a", tests: [{ rule: "minLength" }] }])).toThrow(
+      'fields[0].tests[0]: missing required param "min"'
+    );
+    expect(
+      compile([{ name: "a", tests: [{ rule: "minLength", params: { min: "8" } }] }])
+    ).toThrow('fields[0].tests[0]: param "min" must be of type number');
+    expect(
+      compile([{ name: "a", tests: [{ rule: "email", params: { strict: true } }] }])
+    ).toThrow('fields[0].tests[0]: unknown param "strict"');
+    expect(
+      compile([{ name: "a", tests: [{ rule: "email", params: { toString: 1 } }] }])
+    ).toThrow('fields[0].tests[0]: unknown param "toString"');
+    expect(
+      compile([{ name: "a", tests: [{ rule: "pattern", params: { pattern: "(" } }] }])
+    ).toThrow(/^fields\[0\]\.tests\[0\]: invalid pattern "\("/);
+    expect(
+      compile([{ name: "a", tests: [{ rule: "pattern", params: { pattern: "a", flags: "z" } }] }])
+    ).toThrow(SchemaError);
+    expect(
+      compile([{ name: "a", tests: [{ rule: "email", severity: "notice" }] }])
+    ).toThrow("fields[0].tests[0]: severity must be one of error, warning, info");
+    expect(
+      compile([{ name: "a", fields: [{ name: "b", skipIf: { condition: "nope" } }] }])
+    ).toThrow('fields[0].fields[0].skipIf: unknown condition "nope"');
+    expect(compile([{ name: "a", optional: true }])).toThrow(
+      'fields[0]: unknown property "optional"'
+    );
+    expect(compile([{ name: "a", stopOnFailure: "everything" }])).toThrow(SchemaError);
+    expect(compile([{ name: "a", then: { isOptional: true } }])).toThrow(
+      "fields[0]: then and otherwise require a when condition"
+    );
+    expect(
+      compile([{ name: "a", when: { condition: "fieldEquals", params: { field: "b", value: 1 } }, then: { name: "c" } }])
+    ).toThrow('fields[0].then: unknown property "name"');
+  });
+});
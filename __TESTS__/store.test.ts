@@ -0,0 +1,63 @@
+import { ObjectValidator, ValidationFields, createValidationStore, rules } from "../src/index.ts";
+import { describe, expect, it } from "vitest";
+
+type SignUp = { email: string; password: string };
+
+const fields: ValidationFields<SignUp> = [
+  { name: "email", tests: [rules.email("Invalid email")] },
+  { name: "password", tests: [rules.minLength(8, "Too short")] },
+];
+
+describe("ValidationStore", () => {
+  it("test_store_debounces_updates", async () => {
+    // Given
+    const validator = new ObjectValidator(fields).withFieldStatus();
+    const store = createValidationStore(validator, {
+      source: { email: "", password: "" },
+      debounceMs: 10,
+    });
+    const notified: boolean[] = [];
+    const unsubscribe = store.subscribe((state) => notified.push(state.isValid));
+
+    // When
+    const first = store.update({ email: "john@", password: "" }, ["email"]);
+    const second = store.update({ email: "john@example.com", password: "" }, ["email"]);
+
+    // Then
+    expect(first).toBe(second);
+    expect(await second).toBe(true);
+    expect(store.getField("email")).toBe(true);
+    expect(store.getField("password")).toBeUndefined(); //not validated yet
+    expect(store.getStatus("email")).toMatchObject({ pending: false, touched: true });
+    expect(notified.length).toBeGreaterThan(0);
+
+    unsubscribe();
+    notified.length = 0;
+    const valid = store.update({ email: "john@example.com", password: "short" });
+    expect(await store.flush()).toBe(false);
+    expect(await valid).toBe(false);
+    expect(store.getState().fields).toEqual({ email: true, password: "Too short" });
+    expect(notified).toEqual([]);
+  });
+
+  it("test_store_dispose", async () => {
+    // Given
+    const validator = new ObjectValidator(fields);
+    const store = createValidationStore(validator, {
+      source: { email: "john@example.com", password: "12345678" },
+      state: { isValid: false, fields: { email: false, password: false } },
+    });
+
+    // When
+    const scheduled = store.update();
+    store.dispose();
+
+    // Then
+    await expect(scheduled).rejects.toThrow();
+    await expect(store.validate()).rejects.toThrow();
+    expect(store.getState()).toEqual({
+      isValid: false,
+      fields: { email: false, password: false },
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { ObjectValidator, ValidationFields, createVueValidation, rules } from "../src/index.ts";
+import { describe, expect, it } from "vitest";
+
+describe("createVueValidation", () => {
+  it("test_use_validation", async () => {
+    // Given
+    const watchers: Array<() => void> = [];
+    const disposers: Array<() => void> = [];
+    let stopped = false;
+    const useValidation = createVueValidation({
+      reactive: (target) => target,
+      watch: (source, callback) => {
+        watchers.push(callback);
+        return () => (stopped = true);
+      },
+      onScopeDispose: (fn) => disposers.push(fn),
+    });
+    const fields: ValidationFields = [{ name: "name", tests: [rules.minLength(3, "Too short")] }];
+    const model = { name: "Jo" };
+
+    // When
+    const { state, store, getField, validate } = useValidation(
+      new ObjectValidator(fields),
+      () => model,
+      { debounceMs: 0 }
+    );
+    await validate();
+
+    // Then
+    expect(getField("name")).toBe("Too short");
+
+    model.name = "John";
+    watchers.forEach((callback) => callback());
+    expect(await store.flush()).toBe(true);
+    expect(state).toEqual({
+      isValid: true,
+      fields: { name: true },
+      invalidItems: {},
+      skipped: [],
+      warnings: {},
+      parentFields: {},
+    });
+
+    disposers.forEach((dispose) => dispose());
+    expect(stopped).toBe(true);
+  });
+});
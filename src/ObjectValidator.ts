@@ -1,18 +1,596 @@
 import type {
+  ConditionalRules,
   EmptyFieldTest,
+  FieldsKeyMode,
+  FieldState,
+  InvalidItems,
+  MessageCatalogue,
+  RunOptions,
+  TestFailure,
   ValidationContext,
+  ValidationError,
+  ValidationField,
   ValidationFields,
+  ValidationHooks,
   ValidationMessage,
+  ValidationResult,
   ValidationSettings,
+  ValidationState,
+  ValidationWarning,
+  FieldWarnings,
+  StopPolicy,
+  StatePath,
+  Path,
 } from "./types";
+import { getFieldState, joinPath, WILDCARD } from "./utils";
 import set from "lodash.set";
 import get from "lodash.get";
 
-export const DEFAULT_EMPTY_MANDATORY_FIELD_ERROR = "empty-mandatory-field";
-export const DEFAULT_FAILED_FIELD_ERROR = "field-validation-failed";
+export const EMPTY_MANDATORY_FIELD_CODE = "empty-mandatory-field";
+export const FAILED_FIELD_CODE = "field-validation-failed";
+export const TIMEOUT_CODE = "field-validation-timeout";
+export const UNKNOWN_PROPERTY_CODE = "unknown-property";
+
+export const DEFAULT_EMPTY_MANDATORY_FIELD_ERROR = EMPTY_MANDATORY_FIELD_CODE;
+export const DEFAULT_FAILED_FIELD_ERROR = FAILED_FIELD_CODE;
+export const DEFAULT_TIMEOUT_ERROR = TIMEOUT_CODE;
+export const DEFAULT_UNKNOWN_PROPERTY_ERROR = UNKNOWN_PROPERTY_CODE;
+
+const DEFAULT_ERRORS = [
+  DEFAULT_EMPTY_MANDATORY_FIELD_ERROR,
+  DEFAULT_FAILED_FIELD_ERROR,
+  DEFAULT_TIMEOUT_ERROR,
+  DEFAULT_UNKNOWN_PROPERTY_ERROR,
+];
 
 const DEFAULT_EMPTY_FIELD_TEST : EmptyFieldTest = (data, context) =>
-  typeof data !== "number" && (data === false || !data?.length); //this covers required true, null, undefined, '' and empty array
+  typeof data !== "number" &&
+  (data === false ||
+    (isPlainObject(data) ? !Object.keys(data).length : !data?.length)); //this covers required true, null, undefined, '', empty array and empty object
+
+/**
+ * The state shared by all the fields evaluated during a single validation run.
+ */
+type EvaluationRun = {
+  write: (path: string, state: FieldState) => void;
+  fail?: (error: ValidationError) => void;
+  warn?: (warning: ValidationWarning) => void;
+  skip?: (path: string) => void;
+  transform?: (path: string, value: any) => void;
+  unknown?: (path: string) => void;
+  items?: (path: string, invalid: number[], evaluated?: number[]) => void;
+  hooks?: ValidationHooks[];
+  contextData?: Object | Array<any>;
+  signal?: AbortSignal;
+  locale?: string;
+};
+
+/**
+ * Creates a run that defers all of its reports until `flush` is called.
+ */
+function bufferedRun(run: EvaluationRun) {
+  const buffer: Array<() => void> = [];
+  const buffered: EvaluationRun = {
+    ...run,
+    write: (path, state) => buffer.push(() => run.write(path, state)),
+    fail: (error) => buffer.push(() => run.fail?.(error)),
+    warn: (warning) => buffer.push(() => run.warn?.(warning)),
+    skip: (path) => buffer.push(() => run.skip?.(path)),
+    transform: (path, value) => buffer.push(() => run.transform?.(path, value)),
+    unknown: (path) => buffer.push(() => run.unknown?.(path)),
+    items: (path, invalid, evaluated) =>
+      buffer.push(() => run.items?.(path, invalid, evaluated)),
+  };
+  return { run: buffered, flush: () => buffer.forEach((report) => report()) };
+}
+
+/**
+ * Copies plain objects and arrays deeply. Other values are kept by reference.
+ */
+function clonePlain(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(clonePlain);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, clonePlain(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Lists the paths of `source`'s properties that aren't covered by `fields`.
+ * Fields without sub-fields cover their value entirely, fields with sub-fields
+ * leave the check of their value to the sub-fields' evaluation.
+ */
+function findUnknownProperties(source: any, fields: ValidationFields, base: string) {
+  type KeyNode = { covered: boolean; children: Map<string, KeyNode> };
+  const root: KeyNode = { covered: false, children: new Map() };
+  for (const field of fields) {
+    let node = root;
+    for (const segment of joinPath("", field.name).split(".")) {
+      if (!node.children.has(segment)) {
+        node.children.set(segment, { covered: false, children: new Map() });
+      }
+      node = node.children.get(segment)!;
+    }
+    node.covered = true;
+  }
+
+  const unknown: string[] = [];
+  const walk = (value: any, node: KeyNode, path: string) => {
+    if (!isPlainObject(value)) {
+      return;
+    }
+    for (const key of Object.keys(value)) {
+      const child = node.children.get(key) ?? node.children.get(WILDCARD);
+      if (!child) {
+        unknown.push(joinPath(path, key));
+      } else if (!child.covered) {
+        walk(value[key], child, joinPath(path, key));
+      }
+    }
+  };
+  walk(source, root, base);
+  return unknown;
+}
+
+function unsetPath(object: any, path: string) {
+  const segments = path.split(".");
+  const name = segments.pop()!;
+  const parent = segments.length ? get(object, segments) : object;
+  if (parent && typeof parent === "object") {
+    delete parent[name];
+  }
+}
+
+/**
+ * Freezes the arrays and plain objects of `value`, leaving any other object, e.g. a `Date`, untouched.
+ */
+function deepFreeze<T>(value: T): T {
+  if ((Array.isArray(value) || isPlainObject(value)) && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value as object).forEach(deepFreeze);
+  }
+  return value;
+}
+
+/**
+ * Merges the invalid indices of a partially evaluated array into the previous ones:
+ * the `evaluated` items are replaced by their new outcome, the others keep theirs.
+ * If `evaluated` is undefined the whole array was evaluated and `invalid` replaces `previous`.
+ */
+function mergeInvalidItems(previous: number[] = [], invalid: number[], evaluated?: number[]) {
+  if (!evaluated) {
+    return invalid;
+  }
+  return [
+    ...new Set([...previous.filter((idx) => !evaluated.includes(idx)), ...invalid]),
+  ].sort((a, b) => a - b);
+}
+
+function addWarning(warnings: FieldWarnings, warning: ValidationWarning) {
+  (warnings[warning.path] ??= []).push(warning);
+}
+
+/**
+ * The part of the validation a stop policy still has to interrupt while propagating up the nested fields.
+ */
+type StopScope = Exclude<StopPolicy, "tests" | "fields">;
+
+/**
+ * Returns the scope still to interrupt once `level` has been interrupted, none if `stop` was limited to it.
+ */
+function unwind(stop: StopScope, level: StopScope) {
+  return stop === level ? undefined : stop;
+}
+
+function stopScope(policy: StopPolicy): StopScope | undefined {
+  if (policy === "tests") {
+    return undefined;
+  }
+  return policy === "fields" ? "all" : policy; //'fields' is the former name of 'all'
+}
+
+type FieldOutcome = {
+  valid: boolean;
+  stop?: StopScope;
+  skipped?: boolean;
+};
+
+/**
+ * Calls the `event` hook of each of the hooks sets.
+ */
+function emit<E extends keyof ValidationHooks>(
+  hooks: ValidationHooks[] | undefined,
+  event: E,
+  payload: Parameters<NonNullable<ValidationHooks[E]>>[0]
+) {
+  hooks?.forEach((hook) =>
+    (hook[event] as ((payload: any) => void) | undefined)?.(payload)
+  );
+}
+
+const TIMED_OUT = Symbol("timed-out");
+
+/**
+ * Resolves to `TIMED_OUT` if `promise` doesn't settle within `timeoutMs`.
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs?: number
+): Promise<T | typeof TIMED_OUT> {
+  if (timeoutMs === undefined) {
+    return promise;
+  }
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    promise,
+    new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(() => resolve(TIMED_OUT), timeoutMs);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * An in-flight validation run writing to a `ValidationState`.
+ * `paths` is undefined for full validations.
+ */
+type ActiveRun = {
+  paths?: string[];
+  controller: AbortController;
+  result?: Promise<boolean>;
+  supersededBy?: ActiveRun;
+  //the paths of the newer runs that overlap this one without superseding it. Their state is kept on commit
+  claimed: string[];
+};
+
+const activeRuns = new WeakMap<object, Set<ActiveRun>>();
+
+//the runs that set the `pending` flag of the paths of each state object
+const pendingOwners = new WeakMap<object, Map<string, object>>();
+//the values of the fields when first validated, by state object, to tell whether they're dirty
+const initialValues = new WeakMap<object, Map<string, any>>();
+
+function plainEquals(a: any, b: any): boolean {
+  if (Array.isArray(a) || isPlainObject(a)) {
+    if (Array.isArray(a) !== Array.isArray(b) || !(Array.isArray(b) || isPlainObject(b))) {
+      return false;
+    }
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => plainEquals(a[key], b[key]))
+    );
+  }
+  return Object.is(a, b);
+}
+
+/**
+ * Creates the hooks keeping `stateObj.status` up to date and writing each field's state
+ * with `write` as soon as the field settles, unless the run is aborted or superseded.
+ * The fields matching `touched` are flagged as touched.
+ * `release` clears the `pending` flags still owned by the run when it throws.
+ */
+function fieldStatusTracker(
+  stateObj: ValidationState<any>,
+  source: any,
+  signal: AbortSignal,
+  write: (path: string, state: FieldState) => void,
+  touched?: string[]
+) {
+  const owner = {};
+  const owners = pendingOwners.get(stateObj) ?? new Map<string, object>();
+  pendingOwners.set(stateObj, owners);
+  const initial = initialValues.get(stateObj) ?? new Map<string, any>();
+  initialValues.set(stateObj, initial);
+  const settled = new Set<string>();
+
+  const status = (path: string) =>
+    ((stateObj.status ??= {})[path] ??= { pending: false, touched: false, dirty: false });
+
+  const hooks: ValidationHooks = {
+    fieldStart: ({ path }) => {
+      if (!signal.aborted) {
+        owners.set(path, owner);
+        status(path).pending = true;
+      }
+    },
+    fieldEnd: ({ path, state, time, durationMs }) => {
+      if (owners.get(path) === owner) {
+        owners.delete(path);
+        status(path).pending = false;
+      }
+      if (signal.aborted) {
+        return;
+      }
+      const fieldStatus = status(path);
+      if (state === undefined) {
+        return; //only some of the field's descendants were validated
+      }
+      settled.add(path);
+      write(path, state);
+      const value = get(source, path);
+      if (!initial.has(path)) {
+        initial.set(path, clonePlain(value));
+      }
+      fieldStatus.dirty = !plainEquals(initial.get(path), value);
+      fieldStatus.touched ||= !!touched && matchPaths(path, touched) === "self";
+      fieldStatus.validatedAt = time + durationMs;
+    },
+  };
+  const release = () => {
+    for (const [path, pendingOwner] of owners) {
+      if (pendingOwner === owner) {
+        owners.delete(path);
+        status(path).pending = false;
+      }
+    }
+  };
+  return { hooks, settled, release };
+}
+
+function isPlainObject(value: any): boolean {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function segmentsMatch(a: string[], b: string[]) {
+  return a.every(
+    (segment, idx) =>
+      segment === b[idx] || segment === WILDCARD || b[idx] === WILDCARD
+  );
+}
+
+/**
+ * Tells whether two paths are the same, `*` segments matching any segment.
+ */
+function pathsMatch(a: string, b: string) {
+  const aSegments = a.split(".");
+  const bSegments = b.split(".");
+  return aSegments.length === bSegments.length && segmentsMatch(aSegments, bSegments);
+}
+
+/**
+ * Tells whether `prefix` is the path of one of `path`'s ancestors, `*` segments matching any segment.
+ */
+function isAncestorPath(prefix: string, path: string) {
+  const prefixSegments = prefix.split(".");
+  const pathSegments = path.split(".");
+  return (
+    prefixSegments.length < pathSegments.length &&
+    segmentsMatch(prefixSegments, pathSegments)
+  );
+}
+
+/**
+ * Expands the `*` segments of a field name against the source's actual keys,
+ * e.g. `translations.*.title` to `translations.en.title` and `translations.it.title`.
+ */
+function expandName(source: any, name: string) {
+  let names = [""];
+  for (const segment of joinPath("", name).split(".")) {
+    if (segment !== WILDCARD) {
+      names = names.map((expanded) => joinPath(expanded, segment));
+      continue;
+    }
+    names = names.flatMap((expanded) => {
+      const value = expanded ? get(source, expanded) : source;
+      return value && typeof value === "object"
+        ? Object.keys(value).map((key) => joinPath(expanded, key))
+        : [];
+    });
+  }
+  return names;
+}
+
+/**
+ * Throws if a field depends on an unknown sibling or if
+ * the `dependsOn` declarations contain a cycle.
+ */
+function assertValidDependencies(fields: ValidationFields) {
+  const names = new Set(fields.map((field) => field.name));
+  const visit = (name: string, trail: string[]) => {
+    if (trail.includes(name)) {
+      throw new Error(
+        `Dependency cycle detected: ${[...trail, name].join(" -> ")}`
+      );
+    }
+    const field = fields.find((f) => f.name === name);
+    for (const dependency of field?.dependsOn ?? []) {
+      visit(dependency, [...trail, name]);
+    }
+  };
+
+  for (const field of fields) {
+    for (const dependency of field.dependsOn ?? []) {
+      if (!names.has(dependency)) {
+        throw new Error(
+          `Field "${field.name}" depends on unknown field "${dependency}"`
+        );
+      }
+    }
+    visit(field.name, []);
+    if (field.fields) {
+      assertValidDependencies(field.fields);
+    }
+  }
+}
+
+/**
+ * Finds the declaration of the field at the given concrete path, e.g. `items.2.qty`,
+ * along with the list of fields it belongs to and the base path of that list.
+ */
+function findField(
+  fields: ValidationFields,
+  path: string,
+  base = ""
+): { field: ValidationField; fields: ValidationFields; base: string } | null {
+  for (const field of fields) {
+    const fieldPath = joinPath(base, field.name);
+    if (pathsMatch(fieldPath, path)) {
+      return { field, fields, base };
+    }
+    if (field.fields && isAncestorPath(fieldPath, path)) {
+      const segments = path.split(".");
+      const depth = fieldPath.split(".").length;
+      const next = segments[depth];
+      const found = findField(
+        field.fields,
+        path,
+        segments.slice(0, /^\d+$/.test(next) ? depth + 1 : depth).join(".")
+      );
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Tells how a field path relates to the requested paths of a partial validation:
+ * `self` if the field (or one of its ancestors) was requested, `ancestor` if
+ * only some of its descendants were, `null` if it's not involved at all.
+ */
+function matchPaths(path: string, paths: string[]): "self" | "ancestor" | null {
+  if (paths.some((p) => pathsMatch(path, p) || isAncestorPath(p, path))) {
+    return "self";
+  }
+  if (paths.some((p) => isAncestorPath(path, p))) {
+    return "ancestor";
+  }
+  return null;
+}
+
+/**
+ * Tells whether the paths `a` cover all of the paths `b`, `undefined` standing for all the paths.
+ */
+function pathsCover(a?: string[], b?: string[]) {
+  return !a || (!!b && b.every((path) => matchPaths(path, a) === "self"));
+}
+
+/**
+ * Merges the entries by path of a run into the previous ones, keeping the previous entries of the `claimed` paths.
+ */
+function keepClaimed<V>(
+  previous: { [path: string]: V } = {},
+  entries: { [path: string]: V },
+  claimed: string[]
+) {
+  const isClaimed = ([path]: [string, V]) => matchPaths(path, claimed) === "self";
+  return Object.fromEntries([
+    ...Object.entries(entries).filter((entry) => !isClaimed(entry)),
+    ...Object.entries(previous).filter(isClaimed),
+  ]);
+}
+
+function pathsOverlap(a?: string[], b?: string[]) {
+  return (
+    !a ||
+    !b ||
+    a.some((p) =>
+      b.some((q) => pathsMatch(p, q) || isAncestorPath(q, p) || isAncestorPath(p, q))
+    )
+  );
+}
+
+/**
+ * Tells whether the state of the field at `path` or of any of its descendants is a failure,
+ * whether the fields' state has flat keys or is nested.
+ */
+function failsAt(fields: any, path: string) {
+  return (
+    containsFailure(getFieldState(fields, path)) ||
+    Object.keys(fields).some(
+      (key) => isAncestorPath(path, key) && containsFailure(fields[key])
+    )
+  );
+}
+
+/**
+ * Merges the flat keys at or under `path` from `out` into `fields`.
+ * The keys under `path` that weren't evaluated again are reset to `false`.
+ */
+function mergeFlatFields(fields: any, out: any, path: string) {
+  const covers = (key: string) => key === path || isAncestorPath(path, key);
+  for (const key of Object.keys(fields)) {
+    if (covers(key) && !(key in out)) {
+      fields[key] = false; //skipped, optional and empty or no longer present
+    }
+  }
+  for (const key of Object.keys(out)) {
+    if (covers(key)) {
+      fields[key] = out[key];
+    }
+  }
+}
+
+/**
+ * Tells whether a nested state entry holds the state of sub-fields rather than a field's own state.
+ */
+function isSubFieldsState(state: any) {
+  return (
+    isPlainObject(state) ||
+    (Array.isArray(state) && state.some((item) => typeof item !== "string"))
+  );
+}
+
+function containsFailure(state: any): boolean {
+  if (typeof state === "string") {
+    return true;
+  }
+  if (state && typeof state === "object") {
+    return Object.values(state).some(containsFailure);
+  }
+  return false;
+}
+
+/**
+ * Keeps `isValid` consistent with the failures written by a run that then threw or was aborted,
+ * i.e. the states of the fields settled before that with field status.
+ */
+function invalidateOnFailures(stateObj: ValidationState<any>) {
+  stateObj.isValid &&= !containsFailure(stateObj.fields) && !containsFailure(stateObj.parentFields);
+}
+
+/**
+ * Drops the dependencies on fields that aren't in `fields`.
+ */
+function withoutDependencies(fields: ValidationFields): ValidationFields {
+  const names = fields.map((field) => field.name);
+  return fields.map((field) =>
+    field.dependsOn
+      ? { ...field, dependsOn: field.dependsOn.filter((name) => names.includes(name)) }
+      : field
+  );
+}
+
+/**
+ * Applies `override` to the fields at the given declaration paths, e.g. `address.street` or `items.qty`.
+ */
+function overrideFields(
+  fields: ValidationFields,
+  paths: string[],
+  override: Partial<ValidationField>,
+  base = ""
+): ValidationFields {
+  return fields.map((field) => {
+    const path = joinPath(base, field.name);
+    let overridden = paths.includes(path) ? { ...field, ...override } : field;
+    if (field.fields && paths.some((p) => isAncestorPath(path, p))) {
+      overridden = {
+        ...overridden,
+        fields: overrideFields(field.fields, paths, override, path),
+      };
+    }
+    return overridden as ValidationField;
+  });
+}
 
 function resolveMessage(
   message: ValidationMessage,
@@ -25,16 +603,28 @@ function resolveMessage(
  * ObjectValidator is a class that can be used to validate objects.
  * It can be intanciated with a set of fields and then used
  * multiple times to validate objects.
+ * The optional type parameter `T` is the type of the validated objects:
+ * the fields' names and tests are then checked against it.
  */
-export class ObjectValidator {
+export class ObjectValidator<T = any> {
   private static defaultMandatoryFieldError: ValidationMessage = DEFAULT_EMPTY_MANDATORY_FIELD_ERROR;
   private static defaultFailedFieldMessage: ValidationMessage = DEFAULT_FAILED_FIELD_ERROR;
+  private static defaultMessageCatalogue?: MessageCatalogue;
     
   private fields: ValidationFields;
   private mandatoryFieldError: ValidationMessage = DEFAULT_EMPTY_MANDATORY_FIELD_ERROR;
   private failedFieldError: ValidationMessage = DEFAULT_FAILED_FIELD_ERROR;
+  private timeoutError: ValidationMessage = DEFAULT_TIMEOUT_ERROR;
+  private unknownPropertyError: ValidationMessage = DEFAULT_UNKNOWN_PROPERTY_ERROR;
 
   private emptyFieldTest = DEFAULT_EMPTY_FIELD_TEST;
+  private collectFailures = false;
+  private parallelFields = false;
+  private strict = false;
+  private messageCatalogue?: MessageCatalogue;
+  private hooks: ValidationHooks[] = [];
+  private fieldStatus = false;
+  private keyMode: FieldsKeyMode = "nested";
 
   /**
    * Sets the default error message to be used when a mandatory field is empty.
@@ -56,12 +646,267 @@ export class ObjectValidator {
     ObjectValidator.defaultFailedFieldMessage = error;
   }
 
+  /**
+   * Sets the message catalogue used to translate messages by all validators unless specified otherwise.
+   * 
+   * @param catalogue The catalogue used to translate messages.
+   */
+  static setDefaultMessageCatalogue(catalogue: MessageCatalogue | undefined) {
+    ObjectValidator.defaultMessageCatalogue = catalogue;
+  }
+
   /**
    *
    * @param fields An array of ValidationField objects that define the rules for the validation.
+   * @throws if a field's `dependsOn` refers to an unknown field or if dependencies are circular.
+   */
+  constructor(fields: ValidationFields<T>) {
+    this.fields = fields as ValidationFields;
+    assertValidDependencies(this.fields);
+  }
+
+  /**
+   * @returns the fields the validator was created with.
+   */
+  getFields() {
+    return this.fields as ValidationFields<T>;
+  }
+
+  /**
+   * Creates a validator for `fields` with the same settings, messages and hooks as this one.
+   */
+  private derive<R>(fields: ValidationFields): ObjectValidator<R> {
+    const derived = new ObjectValidator<R>(fields as ValidationFields<R>);
+    Object.assign(derived, { ...this, fields: derived.fields, hooks: [...this.hooks] });
+    return derived;
+  }
+
+  /**
+   * Returns the fields with this validator's own messages, if set, applied to the fields
+   * and tests that don't declare theirs, so that the fields keep them when composed into another validator.
+   */
+  private fieldsWithMessages(fields: ValidationFields = this.fields): ValidationFields {
+    const mandatoryFieldError =
+      this.mandatoryFieldError !== DEFAULT_EMPTY_MANDATORY_FIELD_ERROR
+        ? this.mandatoryFieldError
+        : undefined;
+    const failedFieldError =
+      this.failedFieldError !== DEFAULT_FAILED_FIELD_ERROR ? this.failedFieldError : undefined;
+    const timeoutError = this.timeoutError !== DEFAULT_TIMEOUT_ERROR ? this.timeoutError : undefined;
+
+    const withMessages = <R extends ConditionalRules>(rules: R): R => ({
+      ...rules,
+      ...(!rules.emptyFieldMessage && mandatoryFieldError && { emptyFieldMessage: mandatoryFieldError }),
+      ...(rules.tests && {
+        tests: rules.tests.map((test) => ({
+          ...test,
+          ...(!test.message && !test.defaultMessage && failedFieldError && { message: failedFieldError }),
+          ...(!test.timeoutMessage && timeoutError && { timeoutMessage: timeoutError }),
+        })),
+      }),
+      ...(rules.fields && { fields: this.fieldsWithMessages(rules.fields) }),
+      ...(rules.then && { then: withMessages(rules.then) }),
+      ...(rules.otherwise && { otherwise: withMessages(rules.otherwise) }),
+    });
+
+    return fields.map(withMessages);
+  }
+
+  /**
+   * Creates a validator applying this validator's fields to the object at `prefix`,
+   * e.g. to reuse an address validator for both `billing` and `shipping`.
+   * Within the mounted fields the context's `source` is the object at `prefix`.
+   *
+   * @param prefix the path of the object the fields apply to.
+   * @param options `isOptional` to make the object at `prefix` optional.
+   * @returns ObjectValidator a new validator with the same settings as this one.
+   */
+  mount<R = any>(prefix: Path<R>, { isOptional }: { isOptional?: boolean } = {}) {
+    return this.derive<R>([
+      { name: prefix, isOptional, fields: this.fieldsWithMessages() },
+    ]);
+  }
+
+  /**
+   * Creates a validator with this validator's fields followed by the fields of `others`.
+   * The fields of `others` keep the messages set on their validator,
+   * the other settings are this validator's ones.
+   *
+   * @param others the validators to merge into this one's fields.
+   * @returns ObjectValidator a new validator.
+   * @throws if the merged fields' dependencies are invalid.
+   */
+  merge<U = T>(...others: ObjectValidator<any>[]) {
+    return this.derive<T & U>([
+      ...this.fields,
+      ...others.flatMap((other) => other.fieldsWithMessages()),
+    ]);
+  }
+
+  /**
+   * Creates a validator with only the given top level fields. Dependencies on the other fields are dropped.
+   *
+   * @param names the names of the fields to keep.
+   * @returns ObjectValidator a new validator with the same settings as this one.
+   */
+  pick(...names: Path<T>[]) {
+    const fields = this.fields.filter((field) => (names as string[]).includes(field.name));
+    return this.derive<T>(withoutDependencies(fields));
+  }
+
+  /**
+   * Creates a validator without the given top level fields. Dependencies on them are dropped.
+   *
+   * @param names the names of the fields to remove.
+   * @returns ObjectValidator a new validator with the same settings as this one.
+   */
+  omit(...names: Path<T>[]) {
+    const fields = this.fields.filter((field) => !(names as string[]).includes(field.name));
+    return this.derive<T>(withoutDependencies(fields));
+  }
+
+  /**
+   * Creates a validator where the fields at the given paths are optional.
+   * Sub-fields are referred to by their declaration path, without arrays' indices, e.g. `items.qty`.
+   *
+   * @param paths the declaration paths of the fields.
+   * @returns ObjectValidator a new validator with the same settings as this one.
+   */
+  makeOptional(...paths: string[]) {
+    return this.derive<T>(overrideFields(this.fields, paths, { isOptional: true }));
+  }
+
+  /**
+   * Creates a validator where the fields at the given paths are mandatory. See {@link ObjectValidator.makeOptional}.
+   *
+   * @param paths the declaration paths of the fields.
+   * @returns ObjectValidator a new validator with the same settings as this one.
+   */
+  makeRequired(...paths: string[]) {
+    return this.derive<T>(overrideFields(this.fields, paths, { isOptional: false }));
+  }
+
+  /**
+   * Adds to the given paths the paths of all the fields that depend on them, transitively.
+   */
+  private withDependents(paths: string[]) {
+    const expanded = new Set(paths);
+    const queue = [...paths];
+    while (queue.length) {
+      const match = findField(this.fields, queue.shift()!);
+      if (!match) {
+        continue;
+      }
+      for (const sibling of match.fields) {
+        const dependentPath = joinPath(match.base, sibling.name);
+        if (
+          sibling.dependsOn?.includes(match.field.name) &&
+          !expanded.has(dependentPath)
+        ) {
+          expanded.add(dependentPath);
+          queue.push(dependentPath);
+        }
+      }
+    }
+    return [...expanded];
+  }
+
+  /**
+   * Translates the error's key using the message catalogue, falling back
+   * to the error's code for the default messages and finally to the untranslated key.
+   * The messages set by the user on tests, fields or validators aren't translated through the code.
+   * The code, more specific, is tried first for the library's generic `DEFAULT_*` messages.
+   */
+  private localizeError(
+    error: Omit<ValidationError, "message">,
+    locale?: string
+  ): ValidationError {
+    const catalogue =
+      this.messageCatalogue ?? ObjectValidator.defaultMessageCatalogue;
+    const translate = (key: string) => catalogue?.translate(key, error.params, locale);
+    const message = DEFAULT_ERRORS.includes(error.key)
+      ? translate(error.code) ?? translate(error.key) ?? error.key
+      : translate(error.key) ??
+        (error.isDefaultMessage ? translate(error.code) : undefined) ??
+        error.key;
+    return { ...error, message };
+  }
+
+  /**
+   * Wraps a validation with the `validationStart` and `validationEnd` hooks.
+   * `validationEnd` is called with the `error` if the validation throws, e.g. when aborted.
+   */
+  private async observe(
+    hooks: ValidationHooks[],
+    paths: string[] | undefined,
+    evaluate: () => Promise<boolean>
+  ) {
+    const time = Date.now();
+    emit(hooks, "validationStart", { paths, time });
+    try {
+      const valid = await evaluate();
+      emit(hooks, "validationEnd", { paths, valid, time, durationMs: Date.now() - time });
+      return valid;
+    } catch (error) {
+      emit(hooks, "validationEnd", { paths, error, time, durationMs: Date.now() - time });
+      throw error;
+    }
+  }
+
+  /**
+   * Copies the current state of the `claimed` paths into the results `out` of an older run,
+   * so that committing them doesn't overwrite the results of the newer runs.
+   */
+  private keepClaimedStates(fields: any, out: any, claimed: string[]) {
+    for (const path of claimed) {
+      if (this.keyMode === "flat") {
+        mergeFlatFields(out, fields, path);
+        continue;
+      }
+      const state = get(fields, path);
+      if (state !== undefined) {
+        set(out, path, state);
+      }
+    }
+  }
+
+  /**
+   * Writes a field's state with a flat dotted key or in a nested tree, depending on the key mode.
+   * In a nested tree, the own state of a field whose entry holds its sub-fields' state,
+   * e.g. the failure of an array-level test, is written to `parentFields` instead.
+   */
+  private writeState(
+    fields: any,
+    path: string,
+    state: FieldState,
+    parentFields?: { [path: string]: FieldState }
+  ) {
+    if (this.keyMode === "flat") {
+      fields[path] = state;
+    } else if (parentFields && isSubFieldsState(get(fields, path))) {
+      parentFields[path] = state;
+    } else {
+      set(fields, path, state);
+    }
+  }
+
+  /**
+   * Writes the state of a settled field to `stateObj`, creating `parentFields` only if it gets an entry.
    */
-  constructor(fields: ValidationFields) {
-    this.fields = fields;
+  private writeSettled(stateObj: ValidationState<T>, path: string, state: FieldState) {
+    if (this.keyMode === "flat") {
+      this.writeState(stateObj.fields, path, state);
+      return;
+    }
+    const parentFields = stateObj.parentFields ?? {};
+    this.writeState(stateObj.fields, path, state, parentFields);
+    if (!stateObj.parentFields && Object.keys(parentFields).length > 0) {
+      stateObj.parentFields = parentFields;
+    }
+  }
+
+  private resolveHooks(hooks?: ValidationHooks) {
+    return hooks ? [...this.hooks, hooks] : [...this.hooks];
   }
 
   private resolveMandatoryFieldError(context: ValidationContext) {
@@ -75,114 +920,504 @@ export class ObjectValidator {
   private async evaluateFields({
     source,
     fields,
-    out,
-    contextData,
+    run,
+    parent,
+    paths,
     base = "",
   }: {
     source: any;
     fields: ValidationFields;
-    out: any;
-    contextData?: Object | Array<any>;
+    run: EvaluationRun;
+    parent?: any;
+    paths?: string[];
     base?: string;
-  }): Promise<boolean> {
+  }): Promise<Omit<FieldOutcome, "skipped">> {
+    const evaluate = (field: ValidationField, fieldRun: EvaluationRun) =>
+      this.evaluateField({ field, source, run: fieldRun, parent, paths, base });
+
+    let valid = true;
+
+    if (!paths && (this.strict || run.unknown)) {
+      valid = this.checkUnknownProperties({ source, fields, run, parent, base });
+    }
+
+    //wildcard names are expanded against the source into a field for each concrete path
+    const concreteFields = fields.flatMap((field) =>
+      joinPath("", field.name).split(".").includes(WILDCARD)
+        ? expandName(source, field.name).map((name) => ({ ...field, name }))
+        : [field]
+    );
+
+    if (!this.parallelFields) {
+      for (let field of concreteFields) {
+        const outcome = await evaluate(field, run);
+        valid = outcome.valid && valid;
+        if (outcome.stop) {
+          return { valid, stop: unwind(outcome.stop, "field") };
+        }
+      }
+      return { valid };
+    }
+
+    //each field buffers its reports so that they can be applied in declaration order,
+    //discarding the fields following one that stops the evaluation
+    const started = new Map<
+      ValidationField,
+      { outcome: Promise<FieldOutcome>; flush: () => void }
+    >();
+    const start = (field: ValidationField) => {
+      if (!started.has(field)) {
+        const buffered = bufferedRun(run);
+        const dependencies = concreteFields.filter(
+          (f) =>
+            f !== field &&
+            field.dependsOn?.some((name) => pathsMatch(joinPath("", name), f.name))
+        );
+        const outcome = Promise.all(dependencies.map((f) => start(f).outcome)).then(
+          () => evaluate(field, buffered.run)
+        );
+        started.set(field, { outcome, flush: buffered.flush });
+      }
+      return started.get(field)!;
+    };
+
+    const evaluations = concreteFields.map(start);
+    const outcomes = await Promise.allSettled(
+      evaluations.map(({ outcome }) => outcome)
+    );
+    for (let idx = 0; idx < outcomes.length; idx++) {
+      const outcome = outcomes[idx];
+      if (outcome.status === "rejected") {
+        throw outcome.reason;
+      }
+      evaluations[idx].flush();
+      valid = outcome.value.valid && valid;
+      if (outcome.value.stop) {
+        return { valid, stop: unwind(outcome.value.stop, "field") };
+      }
+    }
+    return { valid };
+  }
+
+  private checkUnknownProperties({
+    source,
+    fields,
+    run,
+    parent,
+    base,
+  }: {
+    source: any;
+    fields: ValidationFields;
+    run: EvaluationRun;
+    parent?: any;
+    base: string;
+  }) {
+    let valid = true;
+    for (const path of findUnknownProperties(source, fields, base)) {
+      run.unknown?.(path);
+      if (!this.strict) {
+        continue;
+      }
+      valid = false;
+      const context = Object.freeze({
+        currentFieldName: path.slice(base ? base.length + 1 : 0),
+        source,
+        parent,
+        contextData : run.contextData,
+        signal : run.signal,
+        locale : run.locale
+      });
+      const error = this.localizeError(
+        {
+          path,
+          key: resolveMessage(this.unknownPropertyError, context),
+          code: UNKNOWN_PROPERTY_CODE,
+        },
+        run.locale
+      );
+      run.write(path, this.collectFailures ? [error.message] : error.message);
+      run.fail?.(error);
+    }
+    return valid;
+  }
+
+  private async evaluateField({
+    field,
+    source,
+    run,
+    parent,
+    paths,
+    base,
+  }: {
+    field: ValidationField;
+    source: any;
+    run: EvaluationRun;
+    parent?: any;
+    paths?: string[];
+    base: string;
+  }): Promise<FieldOutcome> {
+    const path = joinPath(base, field.name);
+
+    const scope = paths ? matchPaths(path, paths) : "self";
+    if (!scope) {
+      return { valid: true };
+    }
+
+    const time = Date.now();
+    emit(run.hooks, "fieldStart", { path, time });
+    //keeps track of the field's own state for the fieldEnd hook
+    let state: FieldState = false;
+    const outcome = await this.evaluateFieldRules({
+      field,
+      source,
+      run: {
+        ...run,
+        write: (name, fieldState) => {
+          if (name === path) {
+            state = fieldState;
+          }
+          run.write(name, fieldState);
+        },
+      },
+      parent,
+      paths,
+      path,
+      scope,
+    });
+    emit(run.hooks, "fieldEnd", {
+      path,
+      valid: outcome.valid,
+      skipped: !!outcome.skipped,
+      state: scope === "self" ? state : undefined,
+      time,
+      durationMs: Date.now() - time,
+    });
+    return outcome;
+  }
+
+  private async evaluateFieldRules({
+    field,
+    source,
+    run,
+    parent,
+    paths,
+    path,
+    scope,
+  }: {
+    field: ValidationField;
+    source: any;
+    run: EvaluationRun;
+    parent?: any;
+    paths?: string[];
+    path: string;
+    scope: "self" | "ancestor";
+  }): Promise<FieldOutcome> {
     let valid = true;
 
-    const invalidate = (name: string, message: ValidationMessage) => {
+    const invalidate = (name: string, message: FieldState) => {
       valid = false;
-      set(out, name, message);
+      run.write(name, message);
     };
 
     const setValid = (name: string) => {
-      set(out, name, true);
+      run.write(name, true);
     };
 
-    for (let field of fields) {
-      const fieldData = get(source, field.name);
-      const aContext = Object.freeze({
-        currentFieldName: field.name,
-        source,
-        contextData : contextData
-      });
-      
-      const isEmpty = await (field.emptyTest || this.emptyFieldTest)(fieldData, aContext);
-      if (field.skipIf && field.skipIf(aContext)) {
-        continue;
+    let fieldData = get(source, field.name);
+    const aContext = Object.freeze({
+      currentFieldName: field.name,
+      source,
+      parent,
+      contextData : run.contextData,
+      signal : run.signal,
+      locale : run.locale
+    });
+    
+    if (field.skipIf && field.skipIf(aContext)) {
+      run.skip?.(path);
+      return { valid, skipped: true };
+    }
+    while (field.when) {
+      //the picked branch's rules override the field's own ones. Its own condition, if any, is evaluated next
+      const { when, then, otherwise, ...rules } = field;
+      const branch = when(aContext) ? then : otherwise;
+      if (!branch) {
+        run.skip?.(path);
+        return { valid, skipped: true };
       }
-      if (field.isOptional && isEmpty) {
-        continue; //empty/false but not mandatory. no issue
+      field = { ...rules, ...branch } as ValidationField;
+      //the branch's own skipIf is only known once it's picked
+      if (branch.skipIf && branch.skipIf(aContext)) {
+        run.skip?.(path);
+        return { valid, skipped: true };
       }
-      const path = base
-        .split(".")
-        .concat(field.name.split("."), "")
-        .filter((seg) => !!seg)
-        .join(".");
+    }
+    if (field.transform) {
+      fieldData = await field.transform(fieldData, aContext);
+      run.transform?.(path, fieldData);
+    }
+    if (scope === "ancestor") {
+      //only some of the sub-fields were requested. The field itself isn't evaluated
+      const subFields = await this.evaluateSubFields({
+        field,
+        fieldData,
+        source,
+        run,
+        paths,
+        path,
+      });
+      return {
+        valid: subFields.valid,
+        stop: subFields.stop && unwind(subFields.stop, "parent"),
+      };
+    }
+    const isEmpty = await (field.emptyTest || this.emptyFieldTest)(fieldData, aContext);
+    if (field.isOptional && isEmpty) {
+      return { valid }; //empty/false but not mandatory. no issue
+    }
+
+    const collect = field.collectFailures ?? this.collectFailures;
 
-      if (!field.isOptional && isEmpty) {
-        invalidate(
+    if (!field.isOptional && isEmpty) {
+      const error = this.localizeError(
+        {
           path,
-          resolveMessage(
+          key: resolveMessage(
             field.emptyFieldMessage || this.resolveMandatoryFieldError(aContext),
             aContext
-          )
+          ),
+          code: EMPTY_MANDATORY_FIELD_CODE,
+        },
+        run.locale
+      );
+      invalidate(path, collect ? [error.message] : error.message);
+      run.fail?.(error);
+      return { valid };
+    }
+    //first set the name valid. This will be overridden on test failure
+    setValid(path);
+
+    const subFields = await this.evaluateSubFields({
+      field,
+      fieldData,
+      source,
+      run,
+      path,
+    });
+    valid = subFields.valid && valid;
+    if (subFields.stop) {
+      //interrupted by a sub-field, the field's tests are part of what's interrupted
+      return { valid, stop: unwind(subFields.stop, "parent") };
+    }
+
+    if (!field.tests) {
+      return { valid };
+    }
+
+    //the tests run after the sub-fields so that array-level tests can tell which items failed
+    const testContext = subFields.invalidItems
+      ? Object.freeze({ ...aContext, invalidItems: subFields.invalidItems })
+      : aContext;
+
+    let stop: StopScope | undefined;
+    const failures: string[] = [];
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    for (const [testIndex, test] of field.tests.entries()) {
+      run.signal?.throwIfAborted();
+      const time = Date.now();
+      const result = await withTimeout(
+        Promise.resolve(test.fn(fieldData, testContext)),
+        test.timeoutMs
+      );
+      const testResult = { path, testIndex, time, durationMs: Date.now() - time };
+      if (result !== true) {
+        const failure: TestFailure =
+          result && typeof result === "object" ? result : {};
+        const messageContext = Object.freeze({
+          ...testContext,
+          params: failure.params,
+        });
+        const isDefaultMessage =
+          typeof result !== "string" && result !== TIMED_OUT && !test.message && !!test.defaultMessage;
+        const error = this.localizeError(
+          {
+            path,
+            key:
+              typeof result === "string"
+                ? result
+                : resolveMessage(
+                    result === TIMED_OUT
+                      ? test.timeoutMessage || this.timeoutError
+                      : test.message ||
+                          test.defaultMessage ||
+                          this.resolveFailedFieldError(messageContext),
+                    messageContext
+                  ),
+            code:
+              result === TIMED_OUT
+                ? TIMEOUT_CODE
+                : failure.code ?? test.code ?? FAILED_FIELD_CODE,
+            //copied, as the params can hold the caller's objects and results get frozen
+            params: clonePlain(failure.params),
+            testIndex,
+            ...(isDefaultMessage && { isDefaultMessage }),
+          },
+          run.locale
         );
+        const severity = test.severity ?? "error";
+        if (severity !== "error") {
+          //warnings don't invalidate the field nor trigger the stopOnFailure policy
+          const warning = { ...error, severity };
+          emit(run.hooks, "testResult", { ...testResult, passed: false, error: warning });
+          warnings.push(warning);
+          continue;
+        }
+        emit(run.hooks, "testResult", { ...testResult, passed: false, error });
+        failures.push(error.message);
+        invalidate(path, collect ? [...failures] : error.message);
+        errors.push(error);
+        if (field.stopOnFailure) {
+          stop = stopScope(field.stopOnFailure);
+          break;
+        }
         continue;
       }
-      //first set the name valid. This will be overridden on test failure
-      setValid(path);
-
-      //check for subfields
-      if (Array.isArray(get(source, field.name)) && field.fields) {
-        let idx = 0;
-        for (const subData of get(source, field.name)) {
-          valid =
-            (await this.evaluateFields({
-              fields: field.fields,
-              source: subData,
-              out,
-              contextData,
-              base: `${path}.${idx}`,
-            })) && valid;
-          idx++;
-        }
+      emit(run.hooks, "testResult", { ...testResult, passed: true });
+      if (field.stopOnSuccess) {
+        stop = stopScope(field.stopOnSuccess);
+        break;
       }
+    }
+    //errors are reported consistently with the field's state
+    for (const error of collect ? errors : errors.slice(-1)) {
+      run.fail?.(error);
+    }
+    for (const warning of warnings) {
+      run.warn?.(warning);
+    }
 
-      if (!field.tests) {
-        continue;
-      }
+    return { valid, stop };
+  }
 
-      let stopFields = false;
-
-      for (let test of field.tests) {
-        const result = await test.fn(fieldData, aContext);
-        if (result !== true) {
-          const message =
-            typeof result === "string"
-              ? result
-              : test.message
-              ? resolveMessage(test.message, aContext)
-              : this.resolveFailedFieldError(aContext);
-          invalidate(path, message);
-          if (field.stopOnFailure) {
-            if (field.stopOnFailure === "fields") {
-              stopFields = true;
-            }
-            break;
-          }
+  private async evaluateSubFields({
+    field,
+    fieldData,
+    source,
+    run,
+    paths,
+    path,
+  }: {
+    field: ValidationField;
+    fieldData: any;
+    source: any;
+    run: EvaluationRun;
+    paths?: string[];
+    path: string;
+  }): Promise<{ valid: boolean; invalidItems?: number[]; stop?: StopScope }> {
+    if (!field.fields) {
+      return { valid: true };
+    }
+    if (Array.isArray(fieldData)) {
+      const invalidItems: number[] = [];
+      //the items involved in a partial validation
+      const evaluated: number[] = [];
+      let stop: StopScope | undefined;
+      for (const [idx, subData] of fieldData.entries()) {
+        const base = `${path}.${idx}`;
+        const scope = paths ? matchPaths(base, paths) : "self";
+        if (!scope) {
           continue;
         }
-        if (field.stopOnSuccess) {
-          if (field.stopOnSuccess === "fields") {
-            stopFields = true;
-          }
+        const item = await this.evaluateFields({
+          fields: field.fields,
+          source: subData,
+          run,
+          parent: source,
+          paths,
+          base,
+        });
+        if (!item.valid) {
+          invalidItems.push(idx);
+        }
+        evaluated.push(idx);
+        stop = item.stop && unwind(item.stop, "item");
+        if (stop) {
           break;
         }
       }
-      if (stopFields) {
-        break;
+      run.items?.(path, invalidItems, paths ? evaluated : undefined);
+      return { valid: !invalidItems.length, invalidItems, stop };
+    }
+    if (isPlainObject(fieldData)) {
+      return this.evaluateFields({
+        fields: field.fields,
+        source: fieldData,
+        run,
+        parent: source,
+        paths,
+        base: path,
+      });
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Runs `evaluate` making sure that its results are only written to `stateObj`
+   * if the run wasn't aborted and no newer run covering all of its paths started in the meantime.
+   * A superseded run resolves with the result of the run that superseded it.
+   * The paths of newer runs only overlapping it are passed to `evaluate` as `claimed`:
+   * their state must be kept when committing.
+   */
+  private trackRun(
+    stateObj: ValidationState<T>,
+    paths: string[] | undefined,
+    signal: AbortSignal | undefined,
+    hooks: ValidationHooks[],
+    evaluate: (signal: AbortSignal, claimed: string[]) => Promise<() => boolean>
+  ): Promise<boolean> {
+    signal?.throwIfAborted();
+
+    const run: ActiveRun = { paths, controller: new AbortController(), claimed: [] };
+    const runs = activeRuns.get(stateObj) ?? new Set<ActiveRun>();
+    activeRuns.set(stateObj, runs);
+    for (const other of runs) {
+      if (pathsCover(paths, other.paths)) {
+        other.supersededBy = run;
+        other.controller.abort();
+      } else if (pathsOverlap(other.paths, paths)) {
+        other.claimed.push(...paths!);
       }
     }
+    runs.add(run);
 
-    return valid;
+    const onAbort = () => run.controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort);
+
+    run.result = this.observe(hooks, paths, async () => {
+      let commit: (() => boolean) | undefined;
+      try {
+        commit = await evaluate(run.controller.signal, run.claimed);
+      } catch (error) {
+        if (!run.supersededBy) {
+          invalidateOnFailures(stateObj);
+          throw error;
+        }
+      } finally {
+        runs.delete(run);
+        signal?.removeEventListener("abort", onAbort);
+      }
+      if (run.supersededBy) {
+        return run.supersededBy.result!;
+      }
+      if (signal?.aborted) {
+        invalidateOnFailures(stateObj);
+        signal.throwIfAborted();
+      }
+      return commit!();
+    });
+    return run.result;
   }
 
   withFailedFieldDefaultError(error: ValidationMessage) {
@@ -190,6 +1425,115 @@ export class ObjectValidator {
     return this;
   } 
 
+  /**
+   *
+   * @param collect If true, every failing test message for a field is collected into an array
+   * instead of the last failure overwriting the previous ones. Can be overridden by the field's `collectFailures`.
+   * @returns
+   */
+  withCollectedFailures(collect: boolean = true) {
+    this.collectFailures = collect;
+    return this;
+  }
+
+  /**
+   *
+   * @param parallel If true, the fields at the same level are evaluated concurrently,
+   * except for fields waiting for the ones they `dependsOn`. Tests within a field are still evaluated in order
+   * and the results are applied in declaration order, honouring the stop policies.
+   * @returns
+   */
+  withParallelFields(parallel: boolean = true) {
+    this.parallelFields = parallel;
+    return this;
+  }
+
+  /**
+   *
+   * @param strict If true, the properties of the source that aren't covered by any field,
+   * nested fields included, are reported as failures under their own path.
+   * @returns
+   */
+  withStrictMode(strict: boolean = true) {
+    this.strict = strict;
+    return this;
+  }
+
+  /**
+   *
+   * @param message A message to be used in strict mode for properties not covered by any field.
+   * @returns
+   */
+  withUnknownPropertyError(message: ValidationMessage) {
+    this.unknownPropertyError = message;
+    return this;
+  }
+
+  /**
+   *
+   * @param message A message to be used when a test doesn't complete within its `timeoutMs`.
+   * @returns
+   */
+  withTimeoutError(message: ValidationMessage) {
+    this.timeoutError = message;
+    return this;
+  }
+
+  /**
+   *
+   * @param catalogue The catalogue used to translate this validator's messages.
+   * @returns
+   */
+  withMessageCatalogue(catalogue: MessageCatalogue) {
+    this.messageCatalogue = catalogue;
+    return this;
+  }
+
+  /**
+   *
+   * @param hooks Functions called during this validator's validations, e.g. to log slow tests
+   * or to show a field's progress. Can be called more than once to register several sets of hooks.
+   * @returns
+   */
+  withHooks(hooks: ValidationHooks) {
+    this.hooks.push(hooks);
+    return this;
+  }
+
+  /**
+   *
+   * @param hooks A set of hooks previously registered with `withHooks`.
+   * @returns
+   */
+  removeHooks(hooks: ValidationHooks) {
+    this.hooks = this.hooks.filter((registered) => registered !== hooks);
+    return this;
+  }
+
+  /**
+   *
+   * @param enabled If true, `validate` and `validatePaths` keep the `status` of each field
+   * (pending, touched, dirty and the time of the last validation) in the state object
+   * and write each field's state as soon as it settles instead of at the end of the validation.
+   * @returns
+   */
+  withFieldStatus(enabled: boolean = true) {
+    this.fieldStatus = enabled;
+    return this;
+  }
+
+  /**
+   *
+   * @param mode `'nested'` (the default) to store the fields' state in a tree, e.g. `fields.address.postal_code`,
+   * arrays' items being stored in arrays, or `'flat'` to store it with dotted keys, e.g. `fields['address.postal_code']`.
+   * In flat mode the state of a field with sub-fields is kept alongside its sub-fields' one.
+   * @returns
+   */
+  withFieldsKeyMode(mode: FieldsKeyMode) {
+    this.keyMode = mode;
+    return this;
+  }
+
   /**
    *
    * @param message A message to be used when a mandatory field is empty.
@@ -215,21 +1559,300 @@ export class ObjectValidator {
    * @param {ValidationSettings} settings the `stateObj`, the `source` and optional `contextData` to be used for the validation.
    * @returns Promise<boolean> A promise that resolves to true if the validation is successful.
    */
-  async validate({ stateObj, source, contextData }: ValidationSettings) {
-    //set output fields state to initial false
-    const out = Object.keys(stateObj.fields).reduce(
-      (acc, key) => ({ ...acc, [key]: false }),
-      {}
+  async validate({
+    stateObj,
+    source,
+    contextData,
+    signal,
+    locale,
+    hooks: settingsHooks,
+  }: ValidationSettings<T>) {
+    const hooks = this.resolveHooks(settingsHooks);
+    return this.trackRun(stateObj, undefined, signal, hooks, async (runSignal, claimed) => {
+      //set output fields state to initial false
+      const out = Object.keys(stateObj.fields).reduce(
+        (acc, key) => ({ ...acc, [key]: false }),
+        {}
+      );
+
+      const parentFields: { [path: string]: FieldState } = {};
+      const invalidItems: InvalidItems = {};
+      const skipped: string[] = [];
+      const warnings: FieldWarnings = {};
+      const write = (path: string, state: FieldState) =>
+        this.writeSettled(stateObj, path, state);
+      const tracker = this.fieldStatus
+        ? fieldStatusTracker(stateObj, source, runSignal, write)
+        : undefined;
+
+      const { valid } = await this.evaluateFields({
+        source,
+        fields: this.fields,
+        run: {
+          write: (path, state) => this.writeState(out, path, state, parentFields),
+          items: (path, invalid) => (invalidItems[path] = invalid),
+          skip: (path) => skipped.push(path),
+          warn: (warning) => addWarning(warnings, warning),
+          hooks: tracker ? [tracker.hooks, ...hooks] : hooks,
+          contextData,
+          signal: runSignal,
+          locale,
+        },
+      }).catch((error) => {
+        tracker?.release();
+        throw error;
+      });
+
+      return () => {
+        //the fields written as they settled but then discarded by a stop policy
+        tracker?.settled.forEach(
+          (path) => getFieldState(out, path) === undefined && this.writeState(out, path, false)
+        );
+        if (!claimed.length) {
+          Object.assign(stateObj.fields, out);
+          if (this.keyMode === "nested") {
+            stateObj.parentFields = parentFields;
+          }
+          stateObj.invalidItems = invalidItems;
+          stateObj.skipped = skipped;
+          stateObj.warnings = warnings;
+          return (stateObj.isValid = valid);
+        }
+        //the paths validated by newer partial runs keep their results
+        const isClaimed = (path: string) => matchPaths(path, claimed) === "self";
+        this.keepClaimedStates(stateObj.fields, out, claimed);
+        Object.assign(stateObj.fields, out);
+        if (this.keyMode === "nested") {
+          stateObj.parentFields = keepClaimed(stateObj.parentFields, parentFields, claimed);
+        }
+        stateObj.invalidItems = keepClaimed(stateObj.invalidItems, invalidItems, claimed);
+        stateObj.skipped = [
+          ...skipped.filter((path) => !isClaimed(path)),
+          ...(stateObj.skipped ?? []).filter(isClaimed),
+        ];
+        stateObj.warnings = keepClaimed(stateObj.warnings, warnings, claimed);
+        return (stateObj.isValid =
+          !containsFailure(stateObj.fields) && !containsFailure(stateObj.parentFields));
+      };
+    });
+  }
+
+  /**
+   * Validates `source` without mutating any state object.
+   *
+   * @param source the object to validate.
+   * @param contextData optional data made available to the rules through the context.
+   * @param {RunOptions} options optional `locale` used to translate the messages,
+   * `hooks` called during this run only, `returnValue` to get a copy of the source with the fields' transformations applied and
+   * `stripUnknown` to remove the properties not covered by any field from the copy.
+   * @returns Promise<ValidationResult> A promise that resolves to a frozen result holding
+   * the validity, the state of each evaluated field by path, the errors and the paths of the skipped fields.
+   */
+  async run(
+    source: T,
+    contextData?: Object | Array<any>,
+    { locale, returnValue, stripUnknown, hooks: optionsHooks }: RunOptions = {}
+  ): Promise<ValidationResult<T>> {
+    const fields: { [path: string]: FieldState } = {};
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+    const skipped: string[] = [];
+    const transformed: Array<[string, any]> = [];
+    const unknown: string[] = [];
+    const invalidItems: InvalidItems = {};
+    const hooks = this.resolveHooks(optionsHooks);
+
+    const isValid = await this.observe(hooks, undefined, () =>
+      this.evaluateFields({
+        source,
+        fields: this.fields,
+        run: {
+          write: (path, state) => (fields[path] = state),
+          fail: (error) => errors.push(error),
+          warn: (warning) => warnings.push(warning),
+          skip: (path) => skipped.push(path),
+          transform: (path, value) => transformed.push([path, value]),
+          unknown: stripUnknown ? (path) => unknown.push(path) : undefined,
+          items: (path, invalid) => (invalidItems[path] = invalid),
+          hooks,
+          contextData,
+          locale,
+        },
+      }).then(({ valid }) => valid)
     );
 
-    const valid = await this.evaluateFields({
-      source,
-      fields: this.fields,
-      out,
-      contextData,
+    if (!returnValue && !stripUnknown) {
+      return deepFreeze({ isValid, fields, errors, warnings, skipped, invalidItems });
+    }
+    const value = clonePlain(source);
+    for (const [path, fieldValue] of transformed) {
+      set(value, path, clonePlain(fieldValue));
+    }
+    for (const path of unknown) {
+      unsetPath(value, path);
+    }
+    return deepFreeze({ isValid, fields, errors, warnings, skipped, invalidItems, value });
+  }
+
+  /**
+   * Translates the messages of a result obtained from `run` to another locale
+   * without evaluating the tests again.
+   *
+   * @param result the result to translate.
+   * @param locale the locale to translate the messages to.
+   * @returns ValidationResult a new frozen result with the translated messages.
+   */
+  localize<R extends ValidationResult<any>>(result: R, locale?: string): R {
+    const errors = result.errors.map((error) => this.localizeError(error, locale));
+    const warnings = result.warnings.map((warning) => ({
+      ...warning,
+      message: this.localizeError(warning, locale).message,
+    }));
+    const fields = { ...result.fields };
+    for (const path of new Set(errors.map((error) => error.path))) {
+      const messages = errors
+        .filter((error) => error.path === path)
+        .map((error) => error.message);
+      fields[path] = Array.isArray(result.fields[path])
+        ? messages
+        : messages[messages.length - 1];
+    }
+    return deepFreeze({ ...result, fields, errors, warnings });
+  }
+
+  /**
+   * Validates only the fields at the given paths, merging the results into the existing `stateObj`.
+   * Paths can point to array items' sub-fields, e.g. `items.2.qty`. Requesting a path also
+   * validates all the fields nested under it and the fields that depend on it (see `dependsOn`).
+   * Paths can contain `*` wildcards, e.g. `translations.*.title`.
+   *
+   * @param paths the paths of the fields to validate.
+   * @param {ValidationSettings} settings the `stateObj`, the `source` and optional `contextData` to be used for the validation.
+   * @returns Promise<boolean> A promise that resolves to true if the merged state has no failures.
+   */
+  async validatePaths(
+    paths: StatePath<T>[],
+    { stateObj, source, contextData, signal, locale, hooks: settingsHooks }: ValidationSettings<T>
+  ) {
+    const requested = this.withDependents(paths).flatMap((path) =>
+      expandName(source, path)
+    );
+    const hooks = this.resolveHooks(settingsHooks);
+
+    return this.trackRun(stateObj, requested, signal, hooks, async (runSignal, claimed) => {
+      const out = {};
+      const parentFields: { [path: string]: FieldState } = {};
+      const items: Array<[string, number[], number[] | undefined]> = [];
+      const skipped: string[] = [];
+      const warnings: FieldWarnings = {};
+      const write = (path: string, state: FieldState) =>
+        this.writeSettled(stateObj, path, state);
+      //dependents are validated but not touched
+      const tracker = this.fieldStatus
+        ? fieldStatusTracker(
+            stateObj,
+            source,
+            runSignal,
+            write,
+            paths.flatMap((path) => expandName(source, path))
+          )
+        : undefined;
+
+      await this.evaluateFields({
+        source,
+        fields: this.fields,
+        run: {
+          write: (path, state) => this.writeState(out, path, state, parentFields),
+          items: (path, invalid, evaluated) => items.push([path, invalid, evaluated]),
+          skip: (path) => skipped.push(path),
+          warn: (warning) => addWarning(warnings, warning),
+          hooks: tracker ? [tracker.hooks, ...hooks] : hooks,
+          contextData,
+          signal: runSignal,
+          locale,
+        },
+        paths: requested,
+      }).catch((error) => {
+        tracker?.release();
+        throw error;
+      });
+
+      return () => {
+        tracker?.settled.forEach(
+          (path) => getFieldState(out, path) === undefined && write(path, false)
+        );
+        //the paths validated by newer runs keep their results
+        const isClaimed = (path: string) => matchPaths(path, claimed) === "self";
+        const isReplaced = (path: string) =>
+          matchPaths(path, requested) === "self" && !isClaimed(path);
+        this.keepClaimedStates(stateObj.fields, out, claimed);
+        for (const path of requested) {
+          if (this.keyMode === "flat") {
+            mergeFlatFields(stateObj.fields, out, path);
+            continue;
+          }
+          const state = get(out, path);
+          if (state !== undefined) {
+            set(stateObj.fields, path, state);
+          } else if (get(stateObj.fields, path) !== undefined) {
+            set(stateObj.fields, path, false); //skipped or optional and empty
+          }
+        }
+        if (this.keyMode === "nested") {
+          stateObj.parentFields = Object.fromEntries([
+            ...Object.entries(stateObj.parentFields ?? {}).filter(([path]) => !isReplaced(path)),
+            ...Object.entries(parentFields).filter(([path]) => !isClaimed(path)),
+          ]);
+        }
+        const invalidItems = { ...stateObj.invalidItems };
+        for (const path of Object.keys(invalidItems)) {
+          if (isReplaced(path)) {
+            delete invalidItems[path]; //re-evaluated in full, if still applicable
+          }
+        }
+        for (const [path, invalid, evaluated] of items) {
+          if (isClaimed(path)) {
+            continue;
+          }
+          //partially validated items' outcome is read from the merged state
+          const merged = evaluated?.filter(
+            (idx) =>
+              failsAt(stateObj.fields, `${path}.${idx}`) ||
+              failsAt(stateObj.parentFields ?? {}, `${path}.${idx}`)
+          );
+          invalidItems[path] = mergeInvalidItems(
+            invalidItems[path],
+            merged ?? invalid,
+            evaluated
+          );
+        }
+        stateObj.invalidItems = invalidItems;
+        stateObj.skipped = [
+          ...(stateObj.skipped ?? []).filter((path) => !isReplaced(path)),
+          ...skipped.filter((path) => !isClaimed(path)),
+        ];
+        stateObj.warnings = Object.fromEntries(
+          Object.entries(stateObj.warnings ?? {}).filter(([path]) => !isReplaced(path))
+        );
+        for (const [path, pathWarnings] of Object.entries(warnings)) {
+          if (!isClaimed(path)) {
+            stateObj.warnings[path] = pathWarnings;
+          }
+        }
+        return (stateObj.isValid =
+          !containsFailure(stateObj.fields) && !containsFailure(stateObj.parentFields));
+      };
     });
+  }
 
-    Object.assign(stateObj.fields, out);
-    return (stateObj.isValid = valid);
+  /**
+   * Validates a single field. See {@link ObjectValidator.validatePaths}.
+   *
+   * @param path the path of the field to validate.
+   * @param {ValidationSettings} settings the `stateObj`, the `source` and optional `contextData` to be used for the validation.
+   * @returns Promise<boolean> A promise that resolves to true if the merged state has no failures.
+   */
+  validateField(path: StatePath<T>, settings: ValidationSettings<T>) {
+    return this.validatePaths([path], settings);
   }
 }
@@ -0,0 +1,190 @@
+import type {
+  ErrorParams,
+  HtmlAttributes,
+  HtmlAttributesExport,
+  JsonSchema,
+  JsonSchemaExport,
+  NonExportable,
+  ValidationFields,
+} from "./types";
+import type { ObjectValidator } from "./ObjectValidator";
+import { joinPath, WILDCARD } from "./utils";
+
+type KeywordsMapper<T> = (params: ErrorParams) => T | undefined;
+
+const JSON_SCHEMA_KEYWORDS: { [rule: string]: KeywordsMapper<JsonSchema> } = {
+  minLength: ({ min }) => ({ minLength: min }),
+  maxLength: ({ max }) => ({ maxLength: max }),
+  range: ({ min, max }) => ({ type: "number", minimum: min, maximum: max }),
+  pattern: ({ pattern, flags = "" }) =>
+    flags.replace(/[gy]/g, "") ? undefined : { type: "string", pattern },
+  oneOf: ({ values }) => ({ enum: values }),
+  email: () => ({ type: "string", format: "email" }),
+  url: () => ({ type: "string", format: "uri" }),
+  minItems: ({ min }) => ({ minItems: min }),
+  maxItems: ({ max }) => ({ maxItems: max }),
+  uniqueItems: ({ key }) => (key === undefined ? { uniqueItems: true } : undefined),
+};
+
+const HTML_ATTRIBUTES: { [rule: string]: KeywordsMapper<HtmlAttributes> } = {
+  minLength: ({ min }) => ({ minlength: min }),
+  maxLength: ({ max }) => ({ maxlength: max }),
+  range: ({ min, max }) => ({ type: "number", min, max }),
+  pattern: ({ pattern, flags = "" }) =>
+    flags.replace(/[gy]/g, "") ? undefined : { pattern },
+  email: () => ({ type: "email" }),
+  url: () => ({ type: "url" }),
+};
+
+//the rules telling that a field with sub-fields holds an array
+const ARRAY_RULES = ["minItems", "maxItems", "uniqueItems"];
+
+/**
+ * Returns the schema of a property, creating it if needed.
+ * `*` wildcards map to `additionalProperties`.
+ */
+function propertySchema(parent: JsonSchema, name: string): JsonSchema {
+  if (name === WILDCARD) {
+    return (parent.additionalProperties ??= {});
+  }
+  return (parent.properties[name] ??= {});
+}
+
+/**
+ * Maps the field's tests through `mappers`, reporting the ones that can't be mapped.
+ */
+function mapTests<T extends object>(
+  field: ValidationFields[number],
+  path: string,
+  mappers: { [rule: string]: KeywordsMapper<T> },
+  target: string,
+  nonExportable: NonExportable[]
+): T {
+  let mapped = {} as T;
+  if (field.skipIf) {
+    nonExportable.push({ path, reason: "skipIf condition" });
+  }
+  if (field.when) {
+    nonExportable.push({ path, reason: "when condition" });
+  }
+  field.tests?.forEach((test, testIndex) => {
+    if (!test.meta) {
+      nonExportable.push({ path, testIndex, reason: "custom test" });
+      return;
+    }
+    if (test.severity && test.severity !== "error") {
+      nonExportable.push({ path, testIndex, reason: `${test.severity} test` });
+      return;
+    }
+    const keywords = mappers[test.meta.rule]?.(test.meta.params);
+    if (!keywords) {
+      nonExportable.push({
+        path,
+        testIndex,
+        reason: `rule "${test.meta.rule}" has no ${target} equivalent`,
+      });
+      return;
+    }
+    mapped = { ...mapped, ...keywords };
+  });
+  return mapped;
+}
+
+function objectSchema(
+  fields: ValidationFields,
+  base: string,
+  nonExportable: NonExportable[]
+): JsonSchema {
+  const schema: JsonSchema = { type: "object", properties: {} };
+  const require = (parent: JsonSchema, name: string) => {
+    parent.required = [...new Set([...(parent.required ?? []), name])];
+  };
+
+  for (const field of fields) {
+    const path = joinPath(base, field.name);
+    //fields with a skipIf or when condition might not be required
+    const mandatory = !field.isOptional && !field.skipIf && !field.when;
+    const segments = joinPath("", field.name).split(".");
+    const name = segments.pop()!;
+
+    let parent = schema;
+    for (const segment of segments) {
+      if (mandatory && segment !== WILDCARD) {
+        require(parent, segment);
+      }
+      const child = propertySchema(parent, segment);
+      child.type = "object";
+      child.properties ??= {};
+      parent = child;
+    }
+    if (mandatory && name !== WILDCARD) {
+      require(parent, name);
+    }
+
+    let fieldSchema = mapTests(field, path, JSON_SCHEMA_KEYWORDS, "JSON Schema", nonExportable);
+    if (field.fields) {
+      //sub-fields are evaluated against arrays' items or against the value itself
+      const subSchema = objectSchema(field.fields, path, nonExportable);
+      if (field.tests?.some((test) => ARRAY_RULES.includes(test.meta?.rule ?? ""))) {
+        fieldSchema = { ...fieldSchema, type: "array", items: subSchema };
+      } else {
+        nonExportable.push({ path, reason: "sub-fields of either an object or an array's items" });
+        fieldSchema = {
+          ...fieldSchema,
+          anyOf: [subSchema, { type: "array", items: subSchema }],
+        };
+      }
+    }
+    Object.assign(propertySchema(parent, name), fieldSchema);
+  }
+  return schema;
+}
+
+function collectAttributes(
+  fields: ValidationFields,
+  base: string,
+  attributes: { [path: string]: HtmlAttributes },
+  nonExportable: NonExportable[]
+) {
+  for (const field of fields) {
+    const path = joinPath(base, field.name);
+    attributes[path] = {
+      ...(!field.isOptional && !field.skipIf && !field.when && { required: true }),
+      ...mapTests(field, path, HTML_ATTRIBUTES, "HTML", nonExportable),
+    };
+    if (field.fields) {
+      collectAttributes(field.fields, path, attributes, nonExportable);
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Exports a validator's fields as a JSON Schema document.
+ * Only the tests carrying declarative metadata (`meta`), such as the built-in rules, can be exported.
+ *
+ * @param validator the validator to export.
+ * @returns JsonSchemaExport the JSON Schema and the list of the rules that couldn't be exported.
+ */
+export function toJsonSchema(validator: ObjectValidator<any>): JsonSchemaExport {
+  const nonExportable: NonExportable[] = [];
+  const schema = objectSchema(validator.getFields(), "", nonExportable);
+  return {
+    schema: { $schema: "https://json-schema.org/draft/2020-12/schema", ...schema },
+    nonExportable,
+  };
+}
+
+/**
+ * Exports a validator's fields as HTML constraint validation attributes
+ * (`required`, `minlength`, `pattern`...) by field path.
+ * Sub-fields' paths don't include the array index, e.g. `items.qty`.
+ *
+ * @param validator the validator to export.
+ * @returns HtmlAttributesExport the attributes by path and the list of the rules that couldn't be exported.
+ */
+export function toHtmlAttributes(validator: ObjectValidator<any>): HtmlAttributesExport {
+  const nonExportable: NonExportable[] = [];
+  const attributes = collectAttributes(validator.getFields(), "", {}, nonExportable);
+  return { attributes, nonExportable };
+}
@@ -0,0 +1,32 @@
+import type { ErrorParams, MessageCatalogue } from "./types";
+
+export type CatalogueMessages = {
+  [locale: string]: { [key: string]: string };
+};
+
+function interpolate(template: string, params?: ErrorParams) {
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params && name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * Creates a MessageCatalogue from a map of messages by locale and key.
+ * Messages can reference the error params with `{paramName}` placeholders.
+ *
+ * @param messages the messages by locale and key.
+ * @param fallbackLocale the locale used when none is specified or when the requested locale doesn't have the key.
+ */
+export function createMessageCatalogue(
+  messages: CatalogueMessages,
+  fallbackLocale?: string
+): MessageCatalogue {
+  return {
+    translate(key, params, locale) {
+      const template =
+        (locale !== undefined ? messages[locale]?.[key] : undefined) ??
+        (fallbackLocale !== undefined ? messages[fallbackLocale]?.[key] : undefined);
+      return template === undefined ? undefined : interpolate(template, params);
+    },
+  };
+}
@@ -2,4 +2,10 @@
 export * from './types';
 export * from './ObjectValidator';
 export * from './utils';
+export * from './i18n';
+export * as rules from './rules';
+export * from './schema';
+export * from './exporters';
+export * from './store';
+export * from './vue';
 
@@ -0,0 +1,236 @@
+import type { ValidationMessage, ValidationTest } from "./types";
+import get from "lodash.get";
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Fails if the value (a string or an array) is shorter than `min`.
+ *
+ * @param min the minimum length.
+ * @param message optional message overriding the default one.
+ */
+export function minLength(min: number, message?: ValidationMessage): ValidationTest {
+  return {
+    fn: (value) => value?.length >= min || { params: { min } },
+    code: "min-length",
+    meta: { rule: "minLength", params: { min } },
+    message,
+    defaultMessage: `Must be at least ${min} characters long`,
+  };
+}
+
+/**
+ * Fails if the value (a string or an array) is longer than `max`.
+ *
+ * @param max the maximum length.
+ * @param message optional message overriding the default one.
+ */
+export function maxLength(max: number, message?: ValidationMessage): ValidationTest {
+  return {
+    fn: (value) => value?.length <= max || { params: { max } },
+    code: "max-length",
+    meta: { rule: "maxLength", params: { max } },
+    message,
+    defaultMessage: `Must be at most ${max} characters long`,
+  };
+}
+
+/**
+ * Fails if the value isn't a number between `min` and `max`, inclusive.
+ *
+ * @param min the minimum value.
+ * @param max the maximum value.
+ * @param message optional message overriding the default one.
+ */
+export function range(
+  min: number,
+  max: number,
+  message?: ValidationMessage
+): ValidationTest {
+  return {
+    fn: (value) =>
+      (typeof value === "number" && value >= min && value <= max) || {
+        params: { min, max },
+      },
+    code: "out-of-range",
+    meta: { rule: "range", params: { min, max } },
+    message,
+    defaultMessage: `Must be between ${min} and ${max}`,
+  };
+}
+
+/**
+ * Fails if the value doesn't match `regex`.
+ *
+ * @param regex the regular expression the value must match.
+ * @param message optional message overriding the default one.
+ */
+export function pattern(regex: RegExp, message?: ValidationMessage): ValidationTest {
+  return {
+    fn: (value) => {
+      regex.lastIndex = 0; //global and sticky regexes are stateful
+      return regex.test(String(value)) || { params: { pattern: regex.source } };
+    },
+    code: "pattern-mismatch",
+    meta: { rule: "pattern", params: { pattern: regex.source, flags: regex.flags } },
+    message,
+    defaultMessage: "Invalid format",
+  };
+}
+
+/**
+ * Fails if the value isn't one of `values`.
+ *
+ * @param values the allowed values.
+ * @param message optional message overriding the default one.
+ */
+export function oneOf(values: Array<any>, message?: ValidationMessage): ValidationTest {
+  return {
+    fn: (value) => values.includes(value) || { params: { values } },
+    code: "not-one-of",
+    meta: { rule: "oneOf", params: { values } },
+    message,
+    defaultMessage: `Must be one of: ${values.join(", ")}`,
+  };
+}
+
+/**
+ * Fails if the value differs from the value of another field of the same source object,
+ * e.g. for password confirmation.
+ *
+ * @param fieldName the name of the field to compare the value with.
+ * @param message optional message overriding the default one.
+ */
+export function equalsField(
+  fieldName: string,
+  message?: ValidationMessage
+): ValidationTest {
+  return {
+    fn: (value, { source }) =>
+      value === get(source, fieldName) || { params: { field: fieldName } },
+    code: "not-equal-to-field",
+    meta: { rule: "equalsField", params: { field: fieldName } },
+    message,
+    defaultMessage: `Must match ${fieldName}`,
+  };
+}
+
+/**
+ * Fails if the value doesn't look like an email address.
+ *
+ * @param message optional message overriding the default one.
+ */
+export function email(message?: ValidationMessage): ValidationTest {
+  return {
+    fn: (value) => typeof value === "string" && EMAIL_REGEX.test(value),
+    code: "invalid-email",
+    meta: { rule: "email", params: {} },
+    message,
+    defaultMessage: "Invalid email address",
+  };
+}
+
+/**
+ * Fails if the value isn't an absolute URL with one of the given protocols.
+ *
+ * @param protocols the allowed protocols. Defaults to http and https.
+ * @param message optional message overriding the default one.
+ */
+export function url(
+  protocols: string[] = ["http", "https"],
+  message?: ValidationMessage
+): ValidationTest {
+  return {
+    fn: (value) => {
+      try {
+        return protocols.includes(new URL(value).protocol.replace(/:$/, ""));
+      } catch {
+        return false;
+      }
+    },
+    code: "invalid-url",
+    meta: { rule: "url", params: { protocols } },
+    message,
+    defaultMessage: "Invalid URL",
+  };
+}
+
+
+/**
+ * Fails if the value isn't an array with at least `min` items.
+ *
+ * @param min the minimum number of items.
+ * @param message optional message overriding the default one.
+ */
+export function minItems(min: number, message?: ValidationMessage): ValidationTest {
+  return {
+    fn: (value) => (Array.isArray(value) && value.length >= min) || { params: { min } },
+    code: "min-items",
+    meta: { rule: "minItems", params: { min } },
+    message,
+    defaultMessage: `Must have at least ${min} items`,
+  };
+}
+
+/**
+ * Fails if the value isn't an array with at most `max` items.
+ *
+ * @param max the maximum number of items.
+ * @param message optional message overriding the default one.
+ */
+export function maxItems(max: number, message?: ValidationMessage): ValidationTest {
+  return {
+    fn: (value) => (Array.isArray(value) && value.length <= max) || { params: { max } },
+    code: "max-items",
+    meta: { rule: "maxItems", params: { max } },
+    message,
+    defaultMessage: `Must have at most ${max} items`,
+  };
+}
+
+/**
+ * Fails if the array contains duplicates. The indices of the duplicated items are passed in the `indices` param.
+ *
+ * @param key optional path of the items' property to compare. The items themselves are compared if omitted.
+ * @param message optional message overriding the default one.
+ */
+export function uniqueItems(key?: string, message?: ValidationMessage): ValidationTest {
+  return {
+    fn: (value) => {
+      const seen = new Map<any, number>();
+      const indices: number[] = [];
+      (Array.isArray(value) ? value : []).forEach((item, idx) => {
+        const itemKey = key === undefined ? item : get(item, key);
+        if (seen.has(itemKey)) {
+          indices.push(idx);
+        } else {
+          seen.set(itemKey, idx);
+        }
+      });
+      return !indices.length || { params: { key, indices } };
+    },
+    code: "duplicate-items",
+    meta: { rule: "uniqueItems", params: { key } },
+    message,
+    defaultMessage: key === undefined ? "Items must be unique" : `Items must have a unique ${key}`,
+  };
+}
+
+/**
+ * Fails unless at least one of the array's items satisfies `predicate`,
+ * e.g. `someItems((address) => address.primary)`.
+ *
+ * @param predicate the function the items are tested with.
+ * @param message optional message overriding the default one.
+ */
+export function someItems(
+  predicate: (item: any, index: number) => boolean,
+  message?: ValidationMessage
+): ValidationTest {
+  return {
+    fn: (value) => Array.isArray(value) && value.some(predicate),
+    code: "no-matching-item",
+    message,
+    defaultMessage: "No item matches the requirement",
+  };
+}
@@ -0,0 +1,358 @@
+import type {
+  ConditionalRules,
+  ConditionDefinition,
+  ErrorParams,
+  JsonCondition,
+  JsonField,
+  JsonRule,
+  JsonRules,
+  ParamSpecs,
+  ParamType,
+  RuleDefinition,
+  ValidationField,
+  ValidationFields,
+  ValidationTest,
+} from "./types";
+import * as rules from "./rules";
+import get from "lodash.get";
+
+const FIELD_KEYS = [
+  "name",
+  "isOptional",
+  "tests",
+  "fields",
+  "emptyFieldMessage",
+  "skipIf",
+  "stopOnFailure",
+  "stopOnSuccess",
+  "collectFailures",
+  "dependsOn",
+  "when",
+  "then",
+  "otherwise",
+];
+const BRANCH_KEYS = FIELD_KEYS.filter(
+  (key) => !["name", "dependsOn", "when", "then", "otherwise"].includes(key)
+);
+const RULE_KEYS = ["rule", "params", "message", "code", "severity", "timeoutMs", "timeoutMessage"];
+const SEVERITIES = ["error", "warning", "info"];
+const CONDITION_KEYS = ["condition", "params"];
+const STOP_POLICIES = ["tests", "field", "item", "parent", "all", "fields"];
+
+/**
+ * Thrown when a JSON rules definition can't be compiled.
+ * `location` points to the offending entry, e.g. `fields[1].tests[0]`.
+ */
+export class SchemaError extends Error {
+  constructor(message: string, readonly location: string) {
+    super(`${location}: ${message}`);
+    this.name = "SchemaError";
+  }
+}
+
+function isObject(value: unknown): value is { [key: string]: any } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: ParamType) {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    case "any":
+      return true;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Calls a rule or condition's `create`, reporting the errors it throws, e.g. for invalid params, at `location`.
+ */
+function create<R>(factory: () => R, location: string): R {
+  try {
+    return factory();
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw error;
+    }
+    throw new SchemaError((error as Error).message, location);
+  }
+}
+
+function assertKnownKeys(json: { [key: string]: any }, keys: string[], location: string) {
+  const unknown = Object.keys(json).find((key) => !keys.includes(key));
+  if (unknown !== undefined) {
+    throw new SchemaError(`unknown property "${unknown}"`, location);
+  }
+}
+
+function assertType(value: unknown, type: ParamType, what: string, location: string) {
+  if (value !== undefined && !matchesType(value, type)) {
+    throw new SchemaError(`${what} must be of type ${type}`, location);
+  }
+}
+
+function checkParams(
+  specs: ParamSpecs = {},
+  params: unknown = {},
+  location: string
+): ErrorParams {
+  if (!isObject(params)) {
+    throw new SchemaError("params must be an object", location);
+  }
+  for (const name of Object.keys(params)) {
+    if (!Object.prototype.hasOwnProperty.call(specs, name)) {
+      throw new SchemaError(`unknown param "${name}"`, location);
+    }
+  }
+  for (const [name, spec] of Object.entries(specs)) {
+    if (params[name] === undefined) {
+      if (!spec.optional) {
+        throw new SchemaError(`missing required param "${name}"`, location);
+      }
+      continue;
+    }
+    assertType(params[name], spec.type, `param "${name}"`, location);
+  }
+  return params;
+}
+
+/**
+ * Maps the names used by JSON rules definitions to the rules' and conditions' implementations
+ * and compiles JSON definitions to `ValidationFields`.
+ * The built-in rules (see the `rules` module) are registered under their factory's name.
+ */
+export class RuleRegistry {
+  private rules = new Map<string, RuleDefinition>();
+  private conditions = new Map<string, ConditionDefinition>();
+
+  constructor() {
+    this.registerRule("minLength", {
+      params: { min: { type: "number" } },
+      create: ({ min }, message) => rules.minLength(min, message),
+    })
+      .registerRule("maxLength", {
+        params: { max: { type: "number" } },
+        create: ({ max }, message) => rules.maxLength(max, message),
+      })
+      .registerRule("range", {
+        params: { min: { type: "number" }, max: { type: "number" } },
+        create: ({ min, max }, message) => rules.range(min, max, message),
+      })
+      .registerRule("pattern", {
+        params: { pattern: { type: "string" }, flags: { type: "string", optional: true } },
+        create: ({ pattern, flags }, message) => {
+          let regex: RegExp;
+          try {
+            regex = new RegExp(pattern, flags);
+          } catch (error) {
+            throw new Error(`invalid pattern "${pattern}": ${(error as Error).message}`);
+          }
+          return rules.pattern(regex, message);
+        },
+      })
+      .registerRule("oneOf", {
+        params: { values: { type: "array" } },
+        create: ({ values }, message) => rules.oneOf(values, message),
+      })
+      .registerRule("equalsField", {
+        params: { field: { type: "string" } },
+        create: ({ field }, message) => rules.equalsField(field, message),
+      })
+      .registerRule("email", {
+        create: (params, message) => rules.email(message),
+      })
+      .registerRule("url", {
+        params: { protocols: { type: "array", optional: true } },
+        create: ({ protocols }, message) => rules.url(protocols, message),
+      })
+      .registerRule("minItems", {
+        params: { min: { type: "number" } },
+        create: ({ min }, message) => rules.minItems(min, message),
+      })
+      .registerRule("maxItems", {
+        params: { max: { type: "number" } },
+        create: ({ max }, message) => rules.maxItems(max, message),
+      })
+      .registerRule("uniqueItems", {
+        params: { key: { type: "string", optional: true } },
+        create: ({ key }, message) => rules.uniqueItems(key, message),
+      })
+      .registerCondition("fieldEquals", {
+        params: { field: { type: "string" }, value: { type: "any" } },
+        create: ({ field, value }) => ({ source }) => get(source, field) === value,
+      })
+      .registerCondition("fieldNotEquals", {
+        params: { field: { type: "string" }, value: { type: "any" } },
+        create: ({ field, value }) => ({ source }) => get(source, field) !== value,
+      })
+      .registerCondition("fieldIn", {
+        params: { field: { type: "string" }, values: { type: "array" } },
+        create: ({ field, values }) => ({ source }) => values.includes(get(source, field)),
+      });
+  }
+
+  /**
+   * Registers a rule, replacing any rule with the same name.
+   *
+   * @param name the name JSON definitions refer to the rule with.
+   * @param definition the rule's params specification and the factory creating its `ValidationTest`.
+   * @returns
+   */
+  registerRule(name: string, definition: RuleDefinition) {
+    this.rules.set(name, definition);
+    return this;
+  }
+
+  /**
+   * Registers a condition, replacing any condition with the same name.
+   *
+   * @param name the name JSON definitions refer to the condition with.
+   * @param definition the condition's params specification and the factory creating its function.
+   * @returns
+   */
+  registerCondition(name: string, definition: ConditionDefinition) {
+    this.conditions.set(name, definition);
+    return this;
+  }
+
+  /**
+   * Compiles a JSON rules definition to `ValidationFields`.
+   *
+   * @param fields the JSON fields definition, e.g. parsed from a CMS document.
+   * @returns ValidationFields to be passed to `ObjectValidator`.
+   * @throws {SchemaError} if the definition is malformed, refers to unknown rules or conditions or has bad params.
+   */
+  compile(fields: JsonField[]): ValidationFields {
+    return this.compileFields(fields, "fields");
+  }
+
+  private compileFields(fields: unknown, location: string): ValidationFields {
+    if (!Array.isArray(fields)) {
+      throw new SchemaError("must be an array", location);
+    }
+    return fields.map((field, idx) => this.compileField(field, `${location}[${idx}]`));
+  }
+
+  private compileField(json: unknown, location: string): ValidationField {
+    if (!isObject(json)) {
+      throw new SchemaError("field must be an object", location);
+    }
+    assertKnownKeys(json, FIELD_KEYS, location);
+    if (typeof json.name !== "string" || !json.name) {
+      throw new SchemaError("name must be a non-empty string", location);
+    }
+    if (
+      json.dependsOn !== undefined &&
+      !(Array.isArray(json.dependsOn) && json.dependsOn.every((d: unknown) => typeof d === "string"))
+    ) {
+      throw new SchemaError("dependsOn must be an array of strings", location);
+    }
+    if (json.when === undefined && (json.then !== undefined || json.otherwise !== undefined)) {
+      throw new SchemaError("then and otherwise require a when condition", location);
+    }
+
+    const { name, dependsOn, when, then, otherwise, ...rules } = json as JsonField;
+    const compiled = {
+      name,
+      ...(dependsOn !== undefined && { dependsOn }),
+      ...this.compileRules(rules, location),
+    } as ValidationField;
+    if (when !== undefined) {
+      compiled.when = this.compileCondition(when, `${location}.when`);
+    }
+    if (then !== undefined) {
+      compiled.then = this.compileBranch(then, `${location}.then`);
+    }
+    if (otherwise !== undefined) {
+      compiled.otherwise = this.compileBranch(otherwise, `${location}.otherwise`);
+    }
+    return compiled;
+  }
+
+  private compileBranch(json: unknown, location: string): ConditionalRules {
+    if (!isObject(json)) {
+      throw new SchemaError("branch must be an object", location);
+    }
+    assertKnownKeys(json, BRANCH_KEYS, location);
+    return this.compileRules(json, location);
+  }
+
+  /**
+   * Compiles the rules shared by fields and `when` branches.
+   */
+  private compileRules(json: { [key: string]: any }, location: string): ConditionalRules {
+    assertType(json.isOptional, "boolean", "isOptional", location);
+    assertType(json.collectFailures, "boolean", "collectFailures", location);
+    assertType(json.emptyFieldMessage, "string", "emptyFieldMessage", location);
+    for (const key of ["stopOnFailure", "stopOnSuccess"]) {
+      if (json[key] !== undefined && !STOP_POLICIES.includes(json[key])) {
+        throw new SchemaError(`${key} must be one of ${STOP_POLICIES.join(", ")}`, location);
+      }
+    }
+
+    const { tests, fields, skipIf, ...rules } = json as JsonRules;
+    const compiled: ConditionalRules = { ...rules };
+    if (tests !== undefined) {
+      if (!Array.isArray(tests)) {
+        throw new SchemaError("must be an array", `${location}.tests`);
+      }
+      compiled.tests = tests.map((test, idx) =>
+        this.compileRule(test, `${location}.tests[${idx}]`)
+      );
+    }
+    if (fields !== undefined) {
+      compiled.fields = this.compileFields(fields, `${location}.fields`);
+    }
+    if (skipIf !== undefined) {
+      compiled.skipIf = this.compileCondition(skipIf, `${location}.skipIf`);
+    }
+    return compiled;
+  }
+
+  private compileRule(json: unknown, location: string): ValidationTest {
+    if (!isObject(json)) {
+      throw new SchemaError("rule must be an object", location);
+    }
+    assertKnownKeys(json, RULE_KEYS, location);
+    const { rule, params, message, code, severity, timeoutMs, timeoutMessage } = json as JsonRule;
+    const definition = this.rules.get(rule);
+    if (!definition) {
+      throw new SchemaError(`unknown rule "${rule}"`, location);
+    }
+    assertType(message, "string", "message", location);
+    assertType(code, "string", "code", location);
+    if (severity !== undefined && !SEVERITIES.includes(severity)) {
+      throw new SchemaError(`severity must be one of ${SEVERITIES.join(", ")}`, location);
+    }
+    assertType(timeoutMs, "number", "timeoutMs", location);
+    assertType(timeoutMessage, "string", "timeoutMessage", location);
+
+    const checkedParams = checkParams(definition.params, params, location);
+    const test = create(() => definition.create(checkedParams, message), location);
+    return {
+      meta: { rule, params: checkedParams },
+      ...test,
+      ...(code !== undefined && { code }),
+      ...(severity !== undefined && { severity }),
+      ...(timeoutMs !== undefined && { timeoutMs }),
+      ...(timeoutMessage !== undefined && { timeoutMessage }),
+    };
+  }
+
+  private compileCondition(json: unknown, location: string) {
+    if (!isObject(json)) {
+      throw new SchemaError("condition must be an object", location);
+    }
+    assertKnownKeys(json, CONDITION_KEYS, location);
+    const { condition, params } = json as JsonCondition;
+    const definition = this.conditions.get(condition);
+    if (!definition) {
+      throw new SchemaError(`unknown condition "${condition}"`, location);
+    }
+    const checkedParams = checkParams(definition.params, params, location);
+    return create(() => definition.create(checkedParams), location);
+  }
+}
@@ -0,0 +1,119 @@
+import type {
+  StatePath,
+  ValidationHooks,
+  ValidationState,
+  ValidationStore,
+  ValidationStoreOptions,
+} from "./types";
+import type { ObjectValidator } from "./ObjectValidator";
+import { getFieldState } from "./utils";
+
+export const DEFAULT_DEBOUNCE_MS = 300;
+
+type ScheduledValidation = {
+  full: boolean;
+  paths: Set<string>;
+  promise: Promise<boolean>;
+  resolve: (valid: boolean) => void;
+  reject: (reason: unknown) => void;
+};
+
+/**
+ * Creates a store keeping a `ValidationState` in sync with a source object.
+ * Subscribers are notified as the validation progresses, i.e. when it starts,
+ * when each field starts and settles and when it ends.
+ *
+ * @param validator the validator used to validate the source.
+ * @param {ValidationStoreOptions} options the `source`, an optional `state` object to keep in sync
+ * (e.g. a reactive object), `debounceMs` for the validations scheduled by `update`, `contextData` and `locale`.
+ */
+export function createValidationStore<T = any>(
+  validator: ObjectValidator<T>,
+  {
+    source,
+    state = { isValid: false, fields: {} } as ValidationState<T>,
+    debounceMs = DEFAULT_DEBOUNCE_MS,
+    contextData,
+    locale,
+  }: ValidationStoreOptions<T>
+): ValidationStore<T> {
+  const listeners = new Set<(state: ValidationState<T>) => void>();
+  const controller = new AbortController();
+  let currentSource = source;
+  let scheduled: ScheduledValidation | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const notify = () => listeners.forEach((listener) => listener(state));
+  const hooks: ValidationHooks = {
+    validationStart: notify,
+    fieldStart: notify,
+    fieldEnd: notify,
+    validationEnd: notify,
+  };
+  const settings = () => ({
+    source: currentSource,
+    stateObj: state,
+    contextData,
+    locale,
+    signal: controller.signal,
+    hooks,
+  });
+
+  const flush = () => {
+    clearTimeout(timer);
+    if (!scheduled) {
+      return Promise.resolve(state.isValid);
+    }
+    const { full, paths, promise, resolve, reject } = scheduled;
+    scheduled = undefined;
+    (full
+      ? validator.validate(settings())
+      : validator.validatePaths([...paths] as StatePath<T>[], settings())
+    ).then(resolve, reject);
+    return promise;
+  };
+
+  return {
+    getState: () => state,
+    getSource: () => currentSource,
+    getField: (path) => getFieldState(state.fields, path),
+    getStatus: (path) => state.status?.[path],
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    validate: () => validator.validate(settings()),
+    validatePaths: (paths) => validator.validatePaths(paths, settings()),
+    update(source = currentSource, paths) {
+      currentSource = source;
+      if (!scheduled) {
+        let resolve: (valid: boolean) => void = () => {};
+        let reject: (reason: unknown) => void = () => {};
+        const promise = new Promise<boolean>((res, rej) => {
+          resolve = res;
+          reject = rej;
+        });
+        promise.catch(() => {}); //callers not awaiting the validation don't get unhandled rejections
+        scheduled = { full: false, paths: new Set(), promise, resolve, reject };
+      }
+      if (paths) {
+        paths.forEach((path) => scheduled!.paths.add(path));
+      } else {
+        scheduled.full = true;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(flush, debounceMs);
+      return scheduled.promise;
+    },
+    flush,
+    dispose() {
+      clearTimeout(timer);
+      controller.abort();
+      scheduled?.reject(controller.signal.reason);
+      scheduled = undefined;
+      listeners.clear();
+    },
+  };
+}
@@ -1,44 +1,470 @@
-export type ValidationState = {
+type Primitive = string | number | boolean | bigint | symbol | null | undefined | Date | RegExp | Function
+
+type IsAny<T> = 0 extends (1 & T) ? true : false
+
+//limits the recursion depth of the path types
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7]
+
+/**
+ * The dotted paths of `T`'s properties, e.g. `'address' | 'address.postal_code'`.
+ * Arrays aren't traversed: their items' fields are declared through `fields`.
+ */
+export type Path<T, D extends number = 8> =
+    IsAny<T> extends true ? string :
+    [D] extends [never] ? never :
+    T extends Primitive | ReadonlyArray<any> ? never :
+    { [K in keyof T & string]-? : K | (
+        NonNullable<T[K]> extends Primitive | ReadonlyArray<any>
+            ? never
+            : `${K}.${Path<NonNullable<T[K]>, Depth[D]>}`
+    ) }[keyof T & string]
+
+/**
+ * The concrete paths of `T`'s properties including arrays' items, e.g. `'items' | 'items.0' | 'items.0.qty'`.
+ */
+export type StatePath<T, D extends number = 8> =
+    IsAny<T> extends true ? string :
+    [D] extends [never] ? never :
+    T extends Primitive | ReadonlyArray<any> ? never :
+    { [K in keyof T & string]-? : K | (
+        NonNullable<T[K]> extends ReadonlyArray<infer E>
+            ? `${K}.${number}` | `${K}.${number}.${StatePath<E, Depth[D]>}`
+            : NonNullable<T[K]> extends Primitive
+            ? never
+            : `${K}.${StatePath<NonNullable<T[K]>, Depth[D]>}`
+    ) }[keyof T & string]
+
+/**
+ * The type of the value at path `P` of `T`.
+ */
+export type PathValue<T, P extends string> =
+    IsAny<T> extends true ? any :
+    P extends keyof T ? T[P] :
+    P extends `${infer K}.${infer R}`
+        ? K extends keyof T ? PathValue<NonNullable<T[K]>, R> : any
+        : any
+
+/**
+ * The type of the objects sub-fields are evaluated against: the items' type for arrays, the value's type otherwise.
+ */
+type SubFieldsSource<V> =
+    IsAny<V> extends true ? any :
+    NonNullable<V> extends ReadonlyArray<infer E> ? E : NonNullable<V>
+
+export type ValidationState<T = any> = {
     isValid : boolean
-    fields : FieldsState
+    /**
+     * The fields' state: a tree in the default `nested` key mode, by flat dotted path in the `flat` one.
+     */
+    fields : FieldsState<T> | NestedFieldsState
+    /**
+     * The indices of the items that failed validation, by path of the array fields with sub-fields.
+     */
+    invalidItems? : InvalidItems
+    /**
+     * The own state of the fields with sub-fields by path, in the `nested` key mode only:
+     * there, the field's entry in `fields` holds its sub-fields' state, e.g. `fields.items[0].qty`,
+     * and failures of its own tests, e.g. an array-level `maxItems`, are kept here.
+     */
+    parentFields? : { [path : string] : FieldState }
+    /**
+     * The paths of the fields skipped by their `skipIf` or `when` condition.
+     */
+    skipped? : string[]
+    /**
+     * The failed tests of `warning` or `info` severity, by path of their field. They don't affect `isValid`.
+     */
+    warnings? : FieldWarnings
+    /**
+     * The status of each field by flat dotted path. Only kept by validators `withFieldStatus()`.
+     */
+    status? : { [path : string] : FieldStatus }
 }
 
-export type StopPolicy = 'fields' | 'tests'
+/**
+ * `pending` is true while the field is being validated.
+ * `touched` is true once the field has been validated by `validateField`/`validatePaths`, as opposed to a whole `validate`.
+ * `dirty` is true if the field's value differs from its value when first validated.
+ * `validatedAt` is the time of the last validation, in milliseconds since the epoch.
+ */
+export type FieldStatus = {
+    pending : boolean
+    touched : boolean
+    dirty : boolean
+    validatedAt? : number
+}
+
+export type InvalidItems = { [path : string] : number[] }
+
+/**
+ * What is interrupted when the stop policy triggers:
+ * - `tests` the field's remaining tests
+ * - `field` the remaining fields of the same `fields` list
+ * - `item` the rest of the closest array item the field belongs to, the whole validation if there's none
+ * - `parent` the rest of the parent field, including its remaining items and its own tests, the whole validation at the top level
+ * - `all` the whole validation
+ * - `fields` same as `all`, kept for backward compatibility
+ */
+export type StopPolicy = 'tests' | 'field' | 'item' | 'parent' | 'all' | 'fields'
 
-export type FieldState = boolean | string
-export type FieldsState = { [key : string] : FieldState }
+export type FieldState = boolean | string | string[]
+
+export type FieldsKeyMode = 'flat' | 'nested'
+
+/**
+ * The fields' state as a tree, e.g. `{ address : { postal_code : true } }`, arrays' items' state being stored in arrays.
+ */
+export type NestedFieldsState = { [key : string] : FieldState | NestedFieldsState | Array<NestedFieldsState | undefined> }
+/**
+ * The fields' state by flat dotted path, e.g. `{ 'address.postal_code' : true }`, as kept in the `flat` key mode.
+ */
+export type FieldsState<T = any> =
+    IsAny<T> extends true
+        ? { [key : string] : FieldState }
+        : { [K in StatePath<T>]? : FieldState }
 
 export type ValidationMessage = string | ((context : ValidationContext) => string)
 
-export type ValidationSettings = {
-    source : any
-    stateObj : ValidationState
+export type ValidationSettings<T = any> = {
+    source : T
+    stateObj : ValidationState<T>
     contextData? : Object | Array<any>
+    signal? : AbortSignal
+    locale? : string
+    /**
+     * Hooks called during this validation only, in addition to the validator's ones.
+     */
+    hooks? : ValidationHooks
+}
+
+export type RunOptions = {
+    locale? : string
+    hooks? : ValidationHooks
+    returnValue? : boolean
+    /**
+     * Returns the copy of the source in `value` without the properties not covered by any field.
+     */
+    stripUnknown? : boolean
+}
+
+export type MessageCatalogue = {
+    /**
+     * Returns the translation of `key` for `locale`, or undefined if the catalogue doesn't know the key.
+     */
+    translate : (key : string, params : ErrorParams | undefined, locale : string | undefined) => string | undefined
+}
+
+export type ErrorParams = { [key : string] : any }
+
+export type ValidationError = {
+    path : string
+    message : string
+    key : string
+    code : string
+    params? : ErrorParams
+    testIndex? : number
+    /**
+     * Set if `key` is a test's `defaultMessage`. Only then, or for the library's `DEFAULT_*` messages,
+     * the catalogue's translation of `code` is used when it has none for `key`.
+     */
+    isDefaultMessage? : boolean
+}
+
+/**
+ * `error` fails the field, `warning` and `info` are only advisory.
+ */
+export type Severity = 'error' | 'warning' | 'info'
+
+export type ValidationWarning = ValidationError & {
+    severity : Exclude<Severity, 'error'>
+}
+
+export type FieldWarnings = { [path : string] : ValidationWarning[] }
+
+export type ValidationResult<T = any> = {
+    readonly isValid : boolean
+    readonly fields : { readonly [path : string] : FieldState }
+    readonly errors : ReadonlyArray<Readonly<ValidationError>>
+    readonly warnings : ReadonlyArray<Readonly<ValidationWarning>>
+    readonly skipped : ReadonlyArray<string>
+    readonly invalidItems : { readonly [path : string] : ReadonlyArray<number> }
+    /**
+     * A copy of the source with the fields' transformations applied. Only set if requested with `returnValue` or `stripUnknown`.
+     */
+    readonly value? : T
+}
+
+/**
+ * `paths` is undefined for full validations. `time` is the start time of the validation, field or test, in milliseconds since the epoch.
+ */
+export type ValidationStartEvent = {
+    paths? : string[]
+    time : number
+}
+
+/**
+ * `valid` is undefined if the validation threw, e.g. because it was aborted, in which case `error` is set.
+ */
+export type ValidationEndEvent = ValidationStartEvent & {
+    valid? : boolean
+    error? : unknown
+    durationMs : number
+}
+
+export type FieldStartEvent = {
+    path : string
+    time : number
+}
+
+/**
+ * `state` is the field's own state, `false` if it wasn't set, e.g. because the field was skipped.
+ * It's undefined if only some of the field's descendants were validated.
+ */
+export type FieldEndEvent = FieldStartEvent & {
+    valid : boolean
+    skipped : boolean
+    state? : FieldState
+    durationMs : number
+}
+
+/**
+ * `error` is set if the test failed.
+ */
+export type TestResultEvent = FieldStartEvent & {
+    testIndex : number
+    passed : boolean
+    /**
+     * The failure, a `ValidationWarning` if the test isn't of `error` severity.
+     */
+    error? : ValidationError | ValidationWarning
+    durationMs : number
 }
 
-export type ValidationContext = {
+/**
+ * Functions called during validation, e.g. for logging or to show a field's progress.
+ * `fieldStart` and `fieldEnd` wrap the evaluation of a field, its sub-fields included.
+ * `fieldEnd` isn't called for the fields being evaluated when a validation throws.
+ */
+export type ValidationHooks = {
+    validationStart? : (event : ValidationStartEvent) => void
+    fieldStart? : (event : FieldStartEvent) => void
+    testResult? : (event : TestResultEvent) => void
+    fieldEnd? : (event : FieldEndEvent) => void
+    validationEnd? : (event : ValidationEndEvent) => void
+}
+
+export type ValidationContext<S = any> = {
     currentFieldName : string
-    source : any;
+    source : S;
+    parent? : any;
     contextData? : any;
+    signal? : AbortSignal;
+    locale? : string;
+    params? : ErrorParams;
+    /**
+     * The indices of the array's items that failed their sub-fields' validation.
+     * Only set for the tests of array fields with `fields`, which run after the items are validated.
+     */
+    invalidItems? : number[];
 }
 
-export type ValidationFields = Array<ValidationField>
+export type ValidationFields<T = any> = Array<ValidationField<T>>
 
-export type ValidationField = {
-    name : string 
+/**
+ * The rules for the field at path `P` of `T`.
+ */
+type FieldRules<T, P extends string, V = PathValue<T, P>> = {
+    name : P
     isOptional? : boolean
-    tests? : ValidationTest[]
-    fields? : ValidationFields
-    emptyTest? : (value : any, context : ValidationContext) => boolean
+    tests? : ValidationTest<V, T>[]
+    fields? : ValidationFields<SubFieldsSource<V>>
+    emptyTest? : (value : V, context : ValidationContext<T>) => boolean
+    transform? : (value : V, context : ValidationContext<T>) => V | Promise<V>
     emptyFieldMessage? : ValidationMessage
-    skipIf? : (context : ValidationContext) => boolean
+    skipIf? : (context : ValidationContext<T>) => boolean
     stopOnFailure? : StopPolicy
     stopOnSuccess? : StopPolicy
+    collectFailures? : boolean
+    dependsOn? : Path<T>[]
+    /**
+     * Picks the rules overriding the field's own ones: `then` if the condition is true, `otherwise` if false.
+     * The field is skipped if the picked branch is missing, or if its `skipIf` is true.
+     */
+    when? : (context : ValidationContext<T>) => boolean
+    then? : ConditionalRules<T, P, V>
+    otherwise? : ConditionalRules<T, P, V>
 }
 
+/**
+ * The rules of a `when` branch. A branch's own `when` is evaluated once the branch is picked.
+ */
+export type ConditionalRules<T = any, P extends string = string, V = any> =
+    Omit<FieldRules<T, P, V>, 'name' | 'dependsOn'>
+
+export type ValidationField<T = any> = { [P in Path<T>] : FieldRules<T, P> }[Path<T>]
+
 export type EmptyFieldTest = (value : any, context : ValidationContext) => boolean
 
-export type ValidationTest = {
-    fn : (value : any, context : ValidationContext) => boolean | string
+export type TestFailure = {
+    code? : string
+    params? : ErrorParams
+}
+
+export type TestResult = boolean | string | TestFailure
+
+export type ValidationTest<V = any, S = any> = {
+    fn : (value : V, context : ValidationContext<S>) => TestResult | Promise<TestResult>
     message? : string | ((context : ValidationContext) => string)
-}
\ No newline at end of file
+    /**
+     * The message used when `message` isn't set, e.g. by the built-in rules. Translated through `code` if the catalogue doesn't know it.
+     */
+    defaultMessage? : ValidationMessage
+    code? : string
+    /**
+     * Defaults to `error`. A failing test of `warning` or `info` severity is reported without invalidating the field.
+     */
+    severity? : Severity
+    timeoutMs? : number
+    timeoutMessage? : ValidationMessage
+    meta? : RuleMeta
+}
+
+/**
+ * Declarative description of what a test checks, used to export the rules, e.g. to JSON Schema.
+ */
+export type RuleMeta = {
+    rule : string
+    params : ErrorParams
+}
+
+export type ParamType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'any'
+
+export type ParamSpecs = { [name : string] : { type : ParamType, optional? : boolean } }
+
+export type RuleDefinition = {
+    params? : ParamSpecs
+    create : (params : ErrorParams, message? : string) => ValidationTest
+}
+
+export type ConditionDefinition = {
+    params? : ParamSpecs
+    create : (params : ErrorParams) => (context : ValidationContext) => boolean
+}
+
+export type JsonRule = {
+    rule : string
+    params? : ErrorParams
+    message? : string
+    code? : string
+    severity? : Severity
+    timeoutMs? : number
+    timeoutMessage? : string
+}
+
+export type JsonCondition = {
+    condition : string
+    params? : ErrorParams
+}
+
+export type JsonRules = {
+    isOptional? : boolean
+    tests? : JsonRule[]
+    fields? : JsonField[]
+    emptyFieldMessage? : string
+    skipIf? : JsonCondition
+    stopOnFailure? : StopPolicy
+    stopOnSuccess? : StopPolicy
+    collectFailures? : boolean
+}
+
+export type JsonField = JsonRules & {
+    name : string
+    dependsOn? : string[]
+    when? : JsonCondition
+    then? : JsonRules
+    otherwise? : JsonRules
+}
+
+export type JsonSchema = { [keyword : string] : any }
+
+export type HtmlAttributes = { [attribute : string] : string | number | boolean }
+
+/**
+ * A rule that couldn't be exported, with the reason why.
+ * `testIndex` is undefined when the issue concerns the field itself, e.g. its `skipIf`.
+ */
+export type NonExportable = {
+    path : string
+    testIndex? : number
+    reason : string
+}
+
+export type JsonSchemaExport = {
+    schema : JsonSchema
+    nonExportable : NonExportable[]
+}
+
+export type HtmlAttributesExport = {
+    attributes : { [path : string] : HtmlAttributes }
+    nonExportable : NonExportable[]
+}
+
+export type ValidationStoreOptions<T = any> = {
+    source : T
+    /**
+     * The state object to keep in sync, e.g. a reactive object. A new one is created if omitted.
+     */
+    state? : ValidationState<T>
+    debounceMs? : number
+    contextData? : Object | Array<any>
+    locale? : string
+}
+
+export type ValidationStore<T = any> = {
+    getState : () => ValidationState<T>
+    getSource : () => T
+    /**
+     * Returns the state of the field at `path`, whether stored as a flat key or nested.
+     */
+    getField : (path : StatePath<T>) => FieldState | NestedFieldsState | undefined
+    getStatus : (path : StatePath<T>) => FieldStatus | undefined
+    /**
+     * Registers a listener called whenever the state changes. Returns the function unregistering it.
+     */
+    subscribe : (listener : (state : ValidationState<T>) => void) => () => void
+    validate : () => Promise<boolean>
+    validatePaths : (paths : StatePath<T>[]) => Promise<boolean>
+    /**
+     * Schedules a debounced validation of the given paths, or of the whole source if no paths are given.
+     * Resolves when the scheduled validation completes.
+     */
+    update : (source? : T, paths? : StatePath<T>[]) => Promise<boolean>
+    /**
+     * Starts the scheduled validation, if any, without waiting for the debounce delay.
+     */
+    flush : () => Promise<boolean>
+    /**
+     * Cancels the scheduled and running validations and unregisters all listeners.
+     */
+    dispose : () => void
+}
+
+/**
+ * The Vue 3 functions used by the composable created by `createVueValidation`.
+ */
+export type VueApi = {
+    reactive : <S extends object>(target : S) => S
+    watch : (source : () => any, callback : () => void, options? : { deep? : boolean }) => (() => void) | void
+    onScopeDispose? : (fn : () => void) => void
+}
+
+export type VueValidationOptions = Omit<ValidationStoreOptions, 'source' | 'state'>
+
+export type VueValidation<T = any> = {
+    state : ValidationState<T>
+    store : ValidationStore<T>
+    getField : ValidationStore<T>['getField']
+    getStatus : ValidationStore<T>['getStatus']
+    validate : () => Promise<boolean>
+    validateField : (path : StatePath<T>) => Promise<boolean>
+}
@@ -1,6 +1,12 @@
-import { FieldsState, ValidationState } from "./types"
+import { ConditionalRules, FieldState, FieldsState, NestedFieldsState, StatePath, ValidationContext, ValidationField, ValidationFields, ValidationState } from "./types"
+import set from "lodash.set"
 
-export function createValidationStateForFields(fields: Array<string>): ValidationState {
+/**
+ * Creates a state with the given fields set to `false`, by flat dotted path as in the `flat` key mode.
+ */
+export function createValidationStateForFields<T = any>(
+    fields: Array<StatePath<T>>
+): ValidationState<T> & { fields : FieldsState<T> } {
     return {
       isValid: false,
       fields: fields.reduce(
@@ -8,7 +14,113 @@ export function createValidationStateForFields(fields: Array<string>): Validatio
           acc[field] = false
           return acc
         },
-        {} as FieldsState
-      )
+        {} as { [key : string] : boolean }
+      ) as FieldsState<T>
     }
-  }
\ No newline at end of file
+  }
+
+/**
+ * The path segment matching any key, e.g. in `translations.*.title`.
+ */
+export const WILDCARD = '*'
+
+/**
+ * Joins a base path and a field name, normalising `[*]` wildcards to `.*` segments.
+ */
+export function joinPath(base : string, name : string) {
+    return base
+        .split('.')
+        .concat(name.replace(/\[\*\]/g, `.${WILDCARD}`).split('.'), '')
+        .filter((seg) => !!seg)
+        .join('.')
+}
+
+/**
+ * Reads the state at `path` whether the fields' state has flat dotted keys, is nested or mixes both.
+ * For fields with sub-fields in a nested state, the subtree of the sub-fields' state is returned.
+ */
+export function getFieldState(fields : object, path : string) : FieldState | NestedFieldsState | undefined {
+    if (fields === null || typeof fields !== 'object') {
+        return undefined
+    }
+    const segments = path.split('.')
+    //the longest matching key wins, e.g. 'address.postal_code' over 'address'
+    for (let idx = segments.length; idx > 0; idx--) {
+        const key = segments.slice(0, idx).join('.')
+        if (Object.prototype.hasOwnProperty.call(fields, key)) {
+            const value = (fields as any)[key]
+            return idx === segments.length ? value : getFieldState(value, segments.slice(idx).join('.'))
+        }
+    }
+    return undefined
+}
+
+function isFieldState(value : any) : value is FieldState {
+    return typeof value === 'boolean' ||
+        typeof value === 'string' ||
+        (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string'))
+}
+
+/**
+ * Converts the fields' state to flat dotted keys, e.g. `{ 'items.0.qty' : true }`.
+ */
+export function toFlatFields(fields : object) : { [path : string] : FieldState } {
+    const flat : { [path : string] : FieldState } = {}
+    const walk = (value : any, path : string) => {
+        if (isFieldState(value)) {
+            flat[path] = value
+        } else if (value && typeof value === 'object') {
+            Object.entries(value).forEach(([key, child]) => walk(child, path ? `${path}.${key}` : key))
+        }
+    }
+    walk(fields, '')
+    return flat
+}
+
+/**
+ * Converts the fields' state to a tree, e.g. `{ items : [{ qty : true }] }`.
+ * The state of fields with sub-fields is replaced by the sub-fields' one, as in the nested key mode.
+ */
+export function toNestedFields(fields : object) : NestedFieldsState {
+    const flat = toFlatFields(fields)
+    const nested : NestedFieldsState = {}
+    Object.keys(flat)
+        .sort((a, b) => a.split('.').length - b.split('.').length)
+        .forEach(path => set(nested, path, flat[path]))
+    return nested
+}
+
+function branchRules({ name, dependsOn, ...rules } : ValidationField) : ConditionalRules {
+    return rules
+}
+
+/**
+ * Creates the fields of a group switching on and off together: the `then` fields apply if `when` is true,
+ * the `otherwise` ones if false. The fields not applying are skipped.
+ * Fields declared in both groups get the rules of the group that applies.
+ * A field's own `when` condition is kept and only evaluated if its group applies.
+ *
+ * @param when the condition, evaluated against each field's context.
+ * @param then the fields applying if the condition is true.
+ * @param otherwise the fields applying if the condition is false.
+ */
+export function conditionalGroup<T = any>(
+    when : (context : ValidationContext<T>) => boolean,
+    then : ValidationFields<T>,
+    otherwise : ValidationFields<T> = []
+) : ValidationFields<T> {
+    const fields = [...then, ...otherwise] as ValidationFields
+    const names = [...new Set(fields.map(field => field.name))]
+    return names.map(name => {
+        const thenField = (then as ValidationFields).find(field => field.name === name)
+        const otherwiseField = (otherwise as ValidationFields).find(field => field.name === name)
+        const dependsOn = [...new Set([...thenField?.dependsOn ?? [], ...otherwiseField?.dependsOn ?? []])]
+        return {
+            name,
+            when,
+            ...(dependsOn.length > 0 && { dependsOn }),
+            ...(thenField && { then : branchRules(thenField) }),
+            ...(otherwiseField && { otherwise : branchRules(otherwiseField) })
+        }
+    }) as ValidationFields<T>
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { ValidationState, VueApi, VueValidation, VueValidationOptions } from "./types";
+import type { ObjectValidator } from "./ObjectValidator";
+import { createValidationStore } from "./store";
+
+/**
+ * Creates a Vue 3 composable keeping a reactive `ValidationState` in sync with a source.
+ * Vue's functions are passed in so that this library doesn't depend on Vue.
+ *
+ * ```typescript
+ * import { reactive, watch, onScopeDispose } from 'vue';
+ * export const useValidation = createVueValidation({ reactive, watch, onScopeDispose });
+ * ```
+ *
+ * @param vue Vue's `reactive`, `watch` and, optionally, `onScopeDispose`.
+ * @returns the `useValidation` composable.
+ */
+export function createVueValidation({ reactive, watch, onScopeDispose }: VueApi) {
+  /**
+   * Validates `source` whenever it changes, debouncing the validations.
+   *
+   * @param validator the validator used to validate the source.
+   * @param source a reactive source object or a getter returning it.
+   * @param {VueValidationOptions} options `debounceMs`, `contextData` and `locale`.
+   */
+  return function useValidation<T = any>(
+    validator: ObjectValidator<T>,
+    source: T | (() => T),
+    options: VueValidationOptions = {}
+  ): VueValidation<T> {
+    const getSource =
+      typeof source === "function" ? (source as () => T) : () => source;
+    const state = reactive({ isValid: false, fields: {} } as ValidationState<T>);
+    const store = createValidationStore(validator, {
+      ...options,
+      source: getSource(),
+      state,
+    });
+    const stop = watch(getSource, () => store.update(getSource()), { deep: true });
+    onScopeDispose?.(() => {
+      stop?.();
+      store.dispose();
+    });
+    return {
+      state,
+      store,
+      getField: store.getField,
+      getStatus: store.getStatus,
+      validate: store.validate,
+      validateField: (path) => store.validatePaths([path]),
+    };
+  };
+}